@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import { ChatSession, ChatSessionExportFormat, exportChatSession } from '../lib/chatSessions';
+import { CloseIcon, UploadIcon } from './common/Icon';
+
+interface ChatHistoryProps {
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  onLoad: (sessionId: string) => void;
+  onRename: (sessionId: string, name: string) => void;
+  onDelete: (sessionId: string) => void;
+  onImport: (file: File) => void;
+}
+
+const downloadSession = (session: ChatSession, format: ChatSessionExportFormat) => {
+  const { fileName, mimeType, text } = exportChatSession(session, format);
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ChatHistory: React.FC<ChatHistoryProps> = ({ sessions, activeSessionId, onLoad, onRename, onDelete, onImport }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-slate-300">History</h3>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 text-xs text-slate-400 hover:text-sky-400"
+        >
+          <UploadIcon className="w-3 h-3" />
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.md,.markdown,application/json,text/markdown"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {sessions.length === 0 ? (
+        <p className="text-xs text-slate-500">Conversations in this mode are saved here automatically.</p>
+      ) : (
+        <ul className="space-y-1 max-h-64 overflow-y-auto">
+          {sessions.map(session => (
+            <li key={session.id} className="flex items-center gap-2 group">
+              {editingId === session.id ? (
+                <input
+                  type="text"
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 px-2 py-1 bg-slate-900 border border-slate-600 rounded text-sm text-slate-200 focus:ring-1 focus:ring-sky-500"
+                  autoFocus
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => onLoad(session.id)}
+                  onDoubleClick={() => {
+                    setEditingId(session.id);
+                    setDraftName(session.name);
+                  }}
+                  className={`flex-1 text-left text-sm truncate hover:text-sky-400 ${session.id === activeSessionId ? 'text-sky-400' : 'text-slate-200'}`}
+                  title={`${new Date(session.updatedAt).toLocaleString()} · ${session.messages.length} messages · double-click to rename`}
+                >
+                  {session.name}
+                </button>
+              )}
+              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                <button
+                  type="button"
+                  onClick={() => downloadSession(session, 'json')}
+                  className="px-1 text-xs text-slate-500 hover:text-sky-400"
+                  aria-label={`Export ${session.name} as JSON`}
+                >
+                  JSON
+                </button>
+                <button
+                  type="button"
+                  onClick={() => downloadSession(session, 'markdown')}
+                  className="px-1 text-xs text-slate-500 hover:text-sky-400"
+                  aria-label={`Export ${session.name} as Markdown`}
+                >
+                  MD
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(session.id)}
+                  className="p-1 rounded-full text-slate-500 hover:text-red-400 hover:bg-slate-700"
+                  aria-label={`Delete ${session.name}`}
+                >
+                  <CloseIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ChatHistory;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { CitedSource, DocumentCitation, splitPageReferences, formatPageReference } from '../lib/citations';
+
+interface CitedAnswerProps {
+  answer: string;
+  sources: CitedSource[];
+  onOpenCitation: (citation: DocumentCitation) => void;
+}
+
+// Renders an answer with its "(p. 42)" or "(slide 3)" references, and the cited passages, as links to the original page.
+const CitedAnswer: React.FC<CitedAnswerProps> = ({ answer, sources, onOpenCitation }) => {
+  const citations = sources
+    .map(source => source.citation)
+    .filter((citation): citation is DocumentCitation => !!citation && citation.page !== undefined);
+  const segments = splitPageReferences(answer, citations);
+
+  return (
+    <div>
+      <p className="whitespace-pre-wrap text-slate-200">
+        {segments.map((segment, index) =>
+          segment.type === 'text' ? (
+            <React.Fragment key={index}>{segment.text}</React.Fragment>
+          ) : (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onOpenCitation(segment.citation)}
+              className="text-sky-400 hover:text-sky-300 hover:underline"
+              title={`Open ${segment.citation.documentName} at ${formatPageReference(segment.citation.page, segment.citation.pageKind)}`}
+            >
+              {segment.text}
+            </button>
+          )
+        )}
+      </p>
+      {citations.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {citations.map((citation, index) => (
+            <button
+              key={`${citation.documentId}-${citation.start}-${index}`}
+              type="button"
+              onClick={() => onOpenCitation(citation)}
+              className="px-2 py-1 text-xs rounded-md bg-slate-700/60 text-slate-300 hover:bg-slate-700 hover:text-sky-300 transition-colors"
+            >
+              {citation.documentName}, {formatPageReference(citation.page, citation.pageKind)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CitedAnswer;
@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import { CloseIcon, UploadIcon } from './common/Icon';
+import { personaIcons } from '../config/personaConfig';
+import { CustomPersona, CustomPersonaId, PERSONA_ICON_NAMES, PersonaIconName, exportCustomPersonas } from '../lib/customPersonas';
+
+interface CustomPersonaManagerProps {
+  personas: CustomPersona[];
+  error: string | null;
+  onSave: (persona: Omit<CustomPersona, 'id'> & { id?: CustomPersonaId }) => CustomPersona | null;
+  onDelete: (id: CustomPersonaId) => void;
+  onImport: (file: File) => void;
+}
+
+const EMPTY_DRAFT = { name: '', description: '', icon: 'sparkles' as PersonaIconName, systemInstruction: '' };
+
+const downloadPersonas = (personas: CustomPersona[]) => {
+  const { fileName, mimeType, text } = exportCustomPersonas(personas);
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const inputClassName = 'mt-1 w-full p-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500';
+
+const CustomPersonaManager: React.FC<CustomPersonaManagerProps> = ({ personas, error, onSave, onDelete, onImport }) => {
+  const [draft, setDraft] = useState<Omit<CustomPersona, 'id'> & { id?: CustomPersonaId }>(EMPTY_DRAFT);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (onSave(draft)) setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-400">Your personas</h3>
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-xs text-slate-400 hover:text-sky-400">
+            <UploadIcon className="w-4 h-4" /> Import
+          </button>
+          {personas.length > 0 && (
+            <button type="button" onClick={() => downloadPersonas(personas)} className="text-xs text-slate-400 hover:text-sky-400">
+              Export all
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {personas.length > 0 && (
+        <ul className="space-y-2">
+          {personas.map(persona => {
+            const Icon = personaIcons[persona.icon];
+            return (
+              <li key={persona.id} className="flex items-center gap-3 p-3 bg-slate-800/50 border border-slate-700 rounded-lg">
+                <Icon className="w-5 h-5 text-sky-400 flex-shrink-0" />
+                <button type="button" onClick={() => setDraft(persona)} className="flex-1 min-w-0 text-left" title="Edit">
+                  <p className="text-sm text-slate-200 truncate">{persona.name}</p>
+                  {persona.description && <p className="text-xs text-slate-500 truncate">{persona.description}</p>}
+                </button>
+                <button type="button" onClick={() => downloadPersonas([persona])} className="text-xs text-slate-400 hover:text-sky-400">
+                  Export
+                </button>
+                <button type="button" onClick={() => onDelete(persona.id)} className="p-1 rounded-full text-slate-500 hover:text-red-400 hover:bg-slate-700" aria-label={`Delete ${persona.name}`}>
+                  <CloseIcon className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-slate-800/50 border border-slate-700 rounded-lg p-3 space-y-3">
+        <label className="block text-sm text-slate-400">
+          Name
+          <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Exam Drill Coach" className={inputClassName} />
+        </label>
+        <label className="block text-sm text-slate-400">
+          Description
+          <input type="text" value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="Shown under the name in the persona picker" className={inputClassName} />
+        </label>
+        <div>
+          <span className="block text-sm text-slate-400 mb-1">Icon</span>
+          <div className="flex gap-2">
+            {PERSONA_ICON_NAMES.map(name => {
+              const Icon = personaIcons[name];
+              return (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => setDraft({ ...draft, icon: name })}
+                  className={`p-2 rounded-lg border ${draft.icon === name ? 'border-sky-500 bg-sky-500/10 text-sky-400' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                  aria-label={name}
+                >
+                  <Icon className="w-5 h-5" />
+                </button>
+              );
+            })}
+          </div>
+        </div>
+        <label className="block text-sm text-slate-400">
+          System instruction
+          <textarea
+            value={draft.systemInstruction}
+            onChange={(e) => setDraft({ ...draft, systemInstruction: e.target.value })}
+            rows={5}
+            placeholder="How the tutor should behave, e.g. 'Reply in isiZulu and keep explanations short.'"
+            className={inputClassName}
+          />
+        </label>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <div className="flex gap-2">
+          <button type="submit" className="py-2 px-4 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg">
+            {draft.id ? 'Save changes' : 'Add persona'}
+          </button>
+          {draft.id && (
+            <button type="button" onClick={() => setDraft(EMPTY_DRAFT)} className="py-2 px-4 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default CustomPersonaManager;
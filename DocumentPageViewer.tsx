@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Spinner from './common/Spinner';
+import { CloseIcon } from './common/Icon';
+import { loadPdfDocument, pdfTransform } from '../lib/documentProcessor';
+
+interface DocumentPageViewerProps {
+  file: Blob;
+  fileName: string;
+  page: number;
+  /** Offsets of the passage to highlight, relative to the start of the page's text. */
+  highlight?: { start: number; end: number };
+  onClose: () => void;
+}
+
+interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const RENDER_SCALE = 1.5;
+
+const DocumentPageViewer: React.FC<DocumentPageViewerProps> = ({ file, fileName, page, highlight, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [highlightRects, setHighlightRects] = useState<HighlightRect[]>([]);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isPdf = file.type === 'application/pdf';
+
+  useEffect(() => {
+    if (isPdf) return;
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    setIsRendering(false);
+    return () => URL.revokeObjectURL(url);
+  }, [file, isPdf]);
+
+  // pdf.js keeps each open document's data in its worker until it is destroyed, so one is kept per file.
+  const [pdf, setPdf] = useState<any>(null);
+
+  useEffect(() => {
+    if (!isPdf) return;
+    let cancelled = false;
+    let loaded: any = null;
+    setPdf(null);
+    setIsRendering(true);
+    setError(null);
+
+    file.arrayBuffer()
+      .then(loadPdfDocument)
+      .then(opened => {
+        loaded = opened;
+        if (cancelled) opened.destroy();
+        else setPdf(opened);
+      })
+      .catch(e => {
+        console.error("Failed to open the PDF.", e);
+        if (!cancelled) {
+          setError(`Could not open "${fileName}".`);
+          setIsRendering(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file, fileName, isPdf]);
+
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    let renderTask: any = null;
+
+    const renderPage = async () => {
+      setIsRendering(true);
+      setError(null);
+      const pdfPage = await pdf.getPage(page);
+      const viewport = pdfPage.getViewport({ scale: RENDER_SCALE });
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      renderTask = pdfPage.render({ canvasContext: canvas.getContext('2d'), viewport });
+      await renderTask.promise;
+
+      if (!highlight) {
+        setHighlightRects([]);
+        return;
+      }
+
+      // Walk the text items in extraction order, tracking each item's offset the way joinPageText does.
+      const textContent = await pdfPage.getTextContent();
+      const rects: HighlightRect[] = [];
+      let offset = 0;
+      textContent.items.forEach((item: any) => {
+        const itemStart = offset;
+        const itemEnd = offset + item.str.length;
+        offset = itemEnd + 1;
+        if (!item.str.trim() || itemEnd <= highlight.start || itemStart >= highlight.end) return;
+
+        const transform = pdfTransform(viewport.transform, item.transform);
+        const height = Math.hypot(transform[2], transform[3]);
+        rects.push({
+          left: transform[4],
+          top: transform[5] - height,
+          width: item.width * viewport.scale,
+          height,
+        });
+      });
+      if (!cancelled) setHighlightRects(rects);
+    };
+
+    renderPage()
+      .catch(e => {
+        // A render cancelled by a newer page or by closing the viewer rejects too.
+        if (cancelled) return;
+        console.error("Failed to render PDF page.", e);
+        setError(`Could not open page ${page} of "${fileName}".`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, fileName, page, highlight]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 p-4" role="dialog" aria-label={`${fileName}, page ${page}`}>
+      <div className="relative max-w-4xl w-full max-h-full overflow-auto bg-slate-900 border border-slate-700 rounded-lg shadow-xl">
+        <div className="sticky top-0 flex items-center justify-between px-4 py-2 bg-slate-900 border-b border-slate-800">
+          <h3 className="text-sm font-semibold text-slate-200 truncate">{fileName} · p. {page}</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 rounded-full text-slate-400 hover:bg-slate-700 hover:text-white transition-colors"
+            aria-label="Close document viewer"
+          >
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-4 flex justify-center">
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+          {isRendering && !error && <Spinner />}
+          {isPdf ? (
+            <div className="relative" style={{ display: error ? 'none' : 'block' }}>
+              <canvas ref={canvasRef} className="block" />
+              {highlightRects.map((rect, index) => (
+                <div
+                  key={index}
+                  className="absolute bg-yellow-300/40 mix-blend-multiply rounded-sm pointer-events-none"
+                  style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+                />
+              ))}
+            </div>
+          ) : (
+            imageUrl && <img src={imageUrl} alt={fileName} className="max-w-full rounded" />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentPageViewer;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { getEmbeddingProviders } from '../lib/embeddingProviders';
+
+interface EmbeddingProviderPickerProps {
+  providerId: string;
+  onChange: (providerId: string) => void;
+  /** Locked once the Knowledge Base holds documents embedded with the current provider. */
+  disabled?: boolean;
+}
+
+const EmbeddingProviderPicker: React.FC<EmbeddingProviderPickerProps> = ({ providerId, onChange, disabled }) => {
+  const providers = getEmbeddingProviders();
+  const selected = providers.find(p => p.id === providerId);
+
+  return (
+    <div>
+      <label htmlFor="embedding-provider" className="block text-sm font-medium text-slate-400 mb-1">
+        Embeddings
+      </label>
+      <select
+        id="embedding-provider"
+        value={providerId}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="w-full p-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 disabled:opacity-60"
+      >
+        {providers.map(provider => (
+          <option key={provider.id} value={provider.id}>{provider.name}</option>
+        ))}
+      </select>
+      {selected && <p className="mt-1 text-xs text-slate-500">{selected.description}</p>}
+    </div>
+  );
+};
+
+export default EmbeddingProviderPicker;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { FileProcessingProgress } from '../types';
+import { CloseIcon } from './common/Icon';
+
+interface FileProcessingProgressBarProps {
+  progress: FileProcessingProgress;
+  onCancel: () => void;
+}
+
+const FileProcessingProgressBar: React.FC<FileProcessingProgressBarProps> = ({ progress, onCancel }) => (
+  <div className="p-3 bg-slate-800/60 border border-slate-700 rounded-lg">
+    <div className="flex items-center justify-between gap-3 mb-2">
+      <p className="text-sm text-slate-300 truncate">{progress.stage}</p>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="flex items-center gap-1 px-2 py-1 text-xs rounded-md text-slate-400 hover:text-red-300 hover:bg-slate-700 transition-colors"
+      >
+        <CloseIcon className="w-3 h-3" />
+        Cancel
+      </button>
+    </div>
+    <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+      <div
+        className="h-full bg-sky-500 transition-all duration-300"
+        style={{ width: `${Math.min(100, Math.max(0, progress.percentage))}%` }}
+      />
+    </div>
+  </div>
+);
+
+export default FileProcessingProgressBar;
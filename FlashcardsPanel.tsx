@@ -0,0 +1,167 @@
+import React, { useRef, useState } from 'react';
+import Spinner from './common/Spinner';
+import { CloseIcon, UploadIcon } from './common/Icon';
+import {
+  FlashcardDeck, Flashcard, FlashcardExportFormat, ReviewRating, exportFlashcardDeck, scheduleReview,
+} from '../lib/flashcards';
+
+interface FlashcardsPanelProps {
+  decks: FlashcardDeck[];
+  cards: Flashcard[];
+  dueCards: Flashcard[];
+  reviewQueue: Flashcard[];
+  reviewDeckId: string | null;
+  isGenerating: boolean;
+  error: string | null;
+  onCreateFromFile: (file: File) => void;
+  onReview: (cardId: string, rating: ReviewRating) => void;
+  onDeleteDeck: (deckId: string) => void;
+  onStartReview: (deckId: string | 'all') => void;
+  onEndReview: () => void;
+}
+
+const RATINGS: { rating: ReviewRating; label: string; className: string }[] = [
+  { rating: 'again', label: 'Again', className: 'bg-red-600 hover:bg-red-700' },
+  { rating: 'hard', label: 'Hard', className: 'bg-amber-600 hover:bg-amber-700' },
+  { rating: 'good', label: 'Good', className: 'bg-green-600 hover:bg-green-700' },
+  { rating: 'easy', label: 'Easy', className: 'bg-sky-600 hover:bg-sky-700' },
+];
+
+const formatInterval = (days: number) => (days === 1 ? '1 day' : days < 30 ? `${days} days` : `${Math.round(days / 30)} mo`);
+
+const downloadDeck = (deck: FlashcardDeck, cards: Flashcard[], format: FlashcardExportFormat) => {
+  const { fileName, mimeType, text } = exportFlashcardDeck(deck, cards, format);
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ReviewCard: React.FC<{ card: Flashcard; remaining: number; onReview: FlashcardsPanelProps['onReview']; onEnd: () => void }> = ({ card, remaining, onReview, onEnd }) => {
+  const [showAnswer, setShowAnswer] = useState(false);
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 sm:p-6">
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-sm text-slate-400">{remaining} card{remaining === 1 ? '' : 's'} left today</span>
+        <button type="button" onClick={onEnd} className="p-1 rounded-full text-slate-500 hover:text-slate-300 hover:bg-slate-700" aria-label="End review">
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-lg text-slate-200 whitespace-pre-wrap">{card.front}</p>
+      {showAnswer ? (
+        <>
+          <p className="mt-4 pt-4 border-t border-slate-700 text-slate-300 whitespace-pre-wrap">{card.back}</p>
+          <div className="mt-6 grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {RATINGS.map(({ rating, label, className }) => (
+              <button
+                key={rating}
+                type="button"
+                onClick={() => onReview(card.id, rating)}
+                className={`py-2 px-3 text-white font-semibold rounded-lg ${className}`}
+              >
+                {label}
+                <span className="block text-xs font-normal opacity-80">{formatInterval(scheduleReview(card, rating).interval)}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <button type="button" onClick={() => setShowAnswer(true)} className="mt-6 w-full py-2 px-4 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg">
+          Show answer
+        </button>
+      )}
+    </div>
+  );
+};
+
+const FlashcardsPanel: React.FC<FlashcardsPanelProps> = ({
+  decks, cards, dueCards, reviewQueue, reviewDeckId, isGenerating, error, onCreateFromFile, onReview, onDeleteDeck, onStartReview, onEndReview,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (reviewDeckId !== null) {
+    const card = reviewQueue[0];
+    return card ? (
+      <ReviewCard key={card.id} card={card} remaining={reviewQueue.length} onReview={onReview} onEnd={onEndReview} />
+    ) : (
+      <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 text-center">
+        <p className="text-lg text-slate-200">All caught up for today.</p>
+        <button type="button" onClick={onEndReview} className="mt-4 py-2 px-4 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg">
+          Back to decks
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => onStartReview('all')}
+          disabled={dueCards.length === 0}
+          className="py-2 px-4 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed"
+        >
+          Review {dueCards.length} due card{dueCards.length === 1 ? '' : 's'}
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isGenerating}
+          className="flex items-center gap-2 py-2 px-4 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg disabled:opacity-60"
+        >
+          {isGenerating ? <Spinner /> : <UploadIcon className="w-4 h-4" />}
+          {isGenerating ? 'Generating cards...' : 'New deck from document'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onCreateFromFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {decks.length === 0 ? (
+        <p className="text-sm text-slate-500">No decks yet. Upload a document or save a chat answer as flashcards.</p>
+      ) : (
+        <ul className="space-y-2">
+          {decks.map(deck => {
+            const total = cards.filter(card => card.deckId === deck.id).length;
+            const due = dueCards.filter(card => card.deckId === deck.id).length;
+            return (
+              <li key={deck.id} className="flex items-center gap-3 p-3 bg-slate-800/50 border border-slate-700 rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <p className="text-slate-200 truncate" title={deck.sourceName}>{deck.name}</p>
+                  <p className="text-xs text-slate-500">{total} cards · {due} due</p>
+                </div>
+                <button type="button" onClick={() => onStartReview(deck.id)} disabled={due === 0} className="text-sm text-sky-400 hover:text-sky-300 disabled:text-slate-600">
+                  Review
+                </button>
+                <button type="button" onClick={() => downloadDeck(deck, cards, 'csv')} className="text-xs text-slate-400 hover:text-sky-400" title="Export for Anki (CSV)">
+                  CSV
+                </button>
+                <button type="button" onClick={() => downloadDeck(deck, cards, 'tsv')} className="text-xs text-slate-400 hover:text-sky-400" title="Export for Anki (TSV)">
+                  TSV
+                </button>
+                <button type="button" onClick={() => onDeleteDeck(deck.id)} className="p-1 rounded-full text-slate-500 hover:text-red-400 hover:bg-slate-700" aria-label={`Delete ${deck.name}`}>
+                  <CloseIcon className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardsPanel;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { KnowledgeDocument } from '../lib/knowledgeBase';
+import { CloseIcon } from './common/Icon';
+
+interface KnowledgeBaseLibraryProps {
+  documents: KnowledgeDocument[];
+  selectedDocumentIds: string[];
+  onToggleSelect: (documentId: string) => void;
+  onRename: (documentId: string, displayName: string) => void;
+  onRemove: (documentId: string) => void;
+}
+
+const KnowledgeBaseLibrary: React.FC<KnowledgeBaseLibraryProps> = ({ documents, selectedDocumentIds, onToggleSelect, onRename, onRemove }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  if (documents.length === 0) return null;
+
+  const startEditing = (document: KnowledgeDocument) => {
+    setEditingId(document.id);
+    setDraftName(document.displayName);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-slate-300">Library</h3>
+        <span className="text-xs text-slate-500">
+          {selectedDocumentIds.length === 0 ? 'Searching all documents' : `Searching ${selectedDocumentIds.length} of ${documents.length}`}
+        </span>
+      </div>
+      <ul className="space-y-1">
+        {documents.map(document => (
+          <li key={document.id} className="flex items-center gap-2 group">
+            <input
+              type="checkbox"
+              checked={selectedDocumentIds.includes(document.id)}
+              onChange={() => onToggleSelect(document.id)}
+              className="accent-sky-500"
+              aria-label={`Limit search to ${document.displayName}`}
+            />
+            {editingId === document.id ? (
+              <input
+                type="text"
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="flex-1 px-2 py-1 bg-slate-900 border border-slate-600 rounded text-sm text-slate-200 focus:ring-1 focus:ring-sky-500"
+                autoFocus
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => startEditing(document)}
+                className="flex-1 text-left text-sm text-slate-200 truncate hover:text-sky-400"
+                title={`${document.fileName} · ${document.chunkCount} chunks · click to rename`}
+              >
+                {document.displayName}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => onRemove(document.id)}
+              className="p-1 rounded-full text-slate-500 hover:text-red-400 hover:bg-slate-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all"
+              aria-label={`Remove ${document.displayName}`}
+            >
+              <CloseIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default KnowledgeBaseLibrary;
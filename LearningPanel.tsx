@@ -5,48 +5,47 @@ import ResponseDisplay from './common/ResponseDisplay';
 // Fix: Updated import to include GeminiInput for more specific prop typing.
 import { PanelConfig, LearningMode, GeminiInput } from '../types';
 import { UploadIcon, CloseIcon, MicrophoneIcon } from './common/Icon';
+import { GeminiStreamFunction } from '../lib/geminiStream';
+import { SpeechRecognizer, loadSpeechEngineSettings, resolveSpeechEngine } from '../lib/speechEngines';
+import { loadVoiceSettings } from '../lib/voiceSettings';
 
 interface LearningPanelProps {
   config: PanelConfig;
   // Fix: Changed the type of apiCall to accept a GeminiInput and return a Promise of any type.
   // This resolves the type mismatch for the Quiz mode which returns QuizData instead of a string.
   apiCall: (input: GeminiInput) => Promise<any>;
+  /** Streams text responses as they are generated; panels with structured responses, like Quiz, leave it out. */
+  streamCall?: GeminiStreamFunction;
 }
 
-const LearningPanel: React.FC<LearningPanelProps> = ({ config, apiCall }) => {
+const LearningPanel: React.FC<LearningPanelProps> = ({ config, apiCall, streamCall }) => {
   const [inputText, setInputText] = useState('');
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
   const [isListening, setIsListening] = useState(false);
 
-  const recognitionRef = useRef<any | null>(null);
+  const recognitionRef = useRef<SpeechRecognizer | null>(null);
   
-  const { data, isLoading, error: apiError, execute, clear } = useGemini(apiCall);
+  const { data, isLoading, isStreaming, error: apiError, execute, stop, clear } = useGemini(apiCall, streamCall);
   
   const isImageMode = config.mode === LearningMode.AnalyzeImage;
   const isTextArea = config.mode === 'Summarize' || config.mode === 'Quiz';
 
   // Setup Speech Recognition
   useEffect(() => {
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (SpeechRecognition) {
-      const recognition = new SpeechRecognition();
-      recognition.continuous = true;
-      recognition.interimResults = true;
+    const settings = loadSpeechEngineSettings();
+    const engine = resolveSpeechEngine(settings);
+    if (engine) {
+      const recognition = engine.createRecognizer(settings);
 
       recognition.onstart = () => {
         setIsListening(true);
         setFormError(null); // Clear previous errors on successful start
       };
 
-      recognition.onresult = (event: any) => {
-        let finalTranscript = '';
-        for (let i = event.resultIndex; i < event.results.length; ++i) {
-          if (event.results[i].isFinal) {
-            finalTranscript += event.results[i][0].transcript;
-          }
-        }
+      recognition.onresult = (results) => {
+        const finalTranscript = results.filter(result => result.isFinal).map(result => result.transcript).join('');
         if (finalTranscript) {
            setInputText(prev => prev ? `${prev} ${finalTranscript}` : finalTranscript);
         }
@@ -54,22 +53,24 @@ const LearningPanel: React.FC<LearningPanelProps> = ({ config, apiCall }) => {
       recognition.onend = () => {
         setIsListening(false);
       };
-      recognition.onerror = (event: any) => {
-        console.error('Speech recognition error', event.error);
-        if (event.error === 'not-allowed') {
+      recognition.onerror = (error) => {
+        console.error('Speech recognition error', error);
+        if (error === 'not-allowed') {
           setFormError("Microphone access was denied. Please enable it in your browser's settings to use this feature.");
-        } else {
-          setFormError(`Speech recognition error: ${event.error}`);
+        } else if (error !== 'aborted') {
+          setFormError(`Speech recognition error: ${error}`);
         }
         setIsListening(false);
       };
       recognitionRef.current = recognition;
+      // Releases the microphone if the panel goes away mid-dictation.
+      return () => recognition.abort();
     }
   }, []);
 
   const toggleListening = () => {
     if (!recognitionRef.current) {
-        setFormError("Voice input is not supported by your browser.");
+        setFormError("Voice input is not supported by your browser. Set up a speech service in the voice settings to use it here.");
         return;
     }
     if (isListening) {
@@ -79,7 +80,7 @@ const LearningPanel: React.FC<LearningPanelProps> = ({ config, apiCall }) => {
       if (formError && formError.includes("Microphone access")) {
           setFormError(null);
       }
-      recognitionRef.current.start();
+      recognitionRef.current.start({ language: loadVoiceSettings().language, continuous: true, interimResults: true });
     }
   };
 
@@ -216,13 +217,23 @@ const LearningPanel: React.FC<LearningPanelProps> = ({ config, apiCall }) => {
                   </div>
                 )}
                 
-                <button
-                    type="submit"
-                    className="w-full flex justify-center items-center py-3 px-4 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-sky-500 transition-all duration-200 disabled:bg-slate-600 disabled:cursor-not-allowed"
-                    disabled={isLoading}
-                >
-                    {isLoading ? <Spinner /> : config.buttonText}
-                </button>
+                {isStreaming ? (
+                  <button
+                      type="button"
+                      onClick={stop}
+                      className="w-full flex justify-center items-center py-3 px-4 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold rounded-lg shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-sky-500 transition-all duration-200"
+                  >
+                      Stop generating
+                  </button>
+                ) : (
+                  <button
+                      type="submit"
+                      className="w-full flex justify-center items-center py-3 px-4 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-sky-500 transition-all duration-200 disabled:bg-slate-600 disabled:cursor-not-allowed"
+                      disabled={isLoading}
+                  >
+                      {isLoading ? <Spinner /> : config.buttonText}
+                  </button>
+                )}
             </form>
 
             {apiError && (
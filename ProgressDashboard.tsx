@@ -0,0 +1,138 @@
+import React from 'react';
+import Spinner from './common/Spinner';
+import { StudyProgress, TopicMastery } from '../lib/studyActivity';
+import { StudyRecommendation } from '../lib/studyRecommendations';
+
+interface ProgressDashboardProps {
+  progress: StudyProgress;
+  recommendations: StudyRecommendation[];
+  isLoading: boolean;
+  onFollowRecommendation: (recommendation: StudyRecommendation) => void;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const masteryColor = (mastery: number | null) =>
+  mastery === null ? 'bg-slate-600' : mastery >= 0.85 ? 'bg-green-500' : mastery >= 0.7 ? 'bg-sky-500' : mastery >= 0.5 ? 'bg-amber-500' : 'bg-red-500';
+
+const StatCard: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-3">
+    <p className="text-xs uppercase tracking-wide text-slate-500">{label}</p>
+    <p className="text-2xl font-bold text-slate-200">{value}</p>
+    {detail && <p className="text-xs text-slate-500">{detail}</p>}
+  </div>
+);
+
+const TopicRow: React.FC<{ topic: TopicMastery }> = ({ topic }) => (
+  <li>
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-slate-300 truncate" title={topic.documentNames.join(', ')}>{topic.topic}</span>
+      <span className="text-slate-500">{topic.mastery === null ? 'Not quizzed' : formatPercent(topic.mastery)}</span>
+    </div>
+    <div className="mt-1 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+      <div className={`h-full ${masteryColor(topic.mastery)}`} style={{ width: `${(topic.mastery ?? 0) * 100}%` }} />
+    </div>
+  </li>
+);
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ progress, recommendations, isLoading, onFollowRecommendation }) => {
+  if (isLoading) {
+    return <div className="flex items-center gap-2 text-slate-400"><Spinner /> Loading your progress...</div>;
+  }
+
+  const questionsAsked = Object.values(progress.questionsByMode).reduce((sum, count) => sum + (count ?? 0), 0);
+  const recentScores = progress.quizScores.slice(-10);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <StatCard label="Streak" value={`${progress.currentStreak} day${progress.currentStreak === 1 ? '' : 's'}`} detail={`Longest: ${progress.longestStreak}`} />
+        <StatCard label="Questions asked" value={String(questionsAsked)} />
+        <StatCard label="Documents studied" value={String(progress.documentsStudied)} />
+        <StatCard
+          label="Flashcard retention"
+          value={progress.flashcardRetention === null ? '—' : formatPercent(progress.flashcardRetention)}
+          detail={`${progress.flashcardReviews} reviews in 30 days`}
+        />
+      </div>
+
+      {recommendations.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold text-slate-400 mb-2">Suggested next steps</h3>
+          <ul className="space-y-2">
+            {recommendations.map(recommendation => (
+              <li key={recommendation.id}>
+                <button
+                  type="button"
+                  onClick={() => onFollowRecommendation(recommendation)}
+                  className="w-full text-left p-3 bg-slate-800 border border-slate-700 rounded-lg hover:border-sky-500 hover:bg-slate-700/50 transition-colors"
+                >
+                  <p className="text-sm font-semibold text-sky-400">{recommendation.title}</p>
+                  <p className="mt-0.5 text-xs text-slate-400">{recommendation.reason}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {questionsAsked > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold text-slate-400 mb-2">Questions by mode</h3>
+          <ul className="flex flex-wrap gap-2 text-sm">
+            {Object.entries(progress.questionsByMode).map(([mode, count]) => (
+              <li key={mode} className="px-2 py-1 bg-slate-800 border border-slate-700 rounded-lg text-slate-300">{mode}: {count}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section>
+        <h3 className="text-sm font-semibold text-slate-400 mb-2">Quiz scores</h3>
+        {recentScores.length === 0 ? (
+          <p className="text-sm text-slate-500">Finish a quiz to see your scores over time.</p>
+        ) : (
+          <div className="flex items-end gap-1 h-24">
+            {recentScores.map(score => (
+              <div
+                key={score.at}
+                className={`flex-1 rounded-t ${masteryColor(score.score)}`}
+                style={{ height: `${Math.max(score.score, 0.05) * 100}%` }}
+                title={`${score.documentName} · ${new Date(score.at).toLocaleDateString()} · ${formatPercent(score.score)}`}
+              />
+            ))}
+          </div>
+        )}
+      </section>
+
+      {progress.weakTopics.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold text-slate-400 mb-2">Needs work</h3>
+          <ul className="space-y-2">
+            {progress.weakTopics.slice(0, 5).map(topic => (
+              <li key={topic.topic} className="p-3 bg-red-500/5 border border-red-500/30 rounded-lg">
+                <p className="text-sm text-slate-200">{topic.topic} <span className="text-slate-500">· {formatPercent(topic.mastery ?? 0)}</span></p>
+                {topic.missedQuestions.length > 0 && (
+                  <p className="mt-1 text-xs text-slate-500 truncate">Missed: {topic.missedQuestions[0]}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section>
+        <h3 className="text-sm font-semibold text-slate-400 mb-2">Topic mastery</h3>
+        {progress.topics.length === 0 ? (
+          <p className="text-sm text-slate-500">Upload a document to start tracking its topics.</p>
+        ) : (
+          <ul className="space-y-3">
+            {progress.topics.map(topic => <TopicRow key={topic.topic} topic={topic} />)}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
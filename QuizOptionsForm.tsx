@@ -0,0 +1,72 @@
+import React from 'react';
+import {
+  QuizOptions, QuizQuestionType, QuizDifficulty, QUIZ_QUESTION_TYPES, DEFAULT_QUIZ_OPTIONS, MAX_QUIZ_QUESTIONS, resolveQuizOptions,
+} from '../lib/quizGeneration';
+
+interface QuizOptionsFormProps {
+  options: QuizOptions;
+  onChange: (options: QuizOptions) => void;
+  disabled?: boolean;
+}
+
+const DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+const QuizOptionsForm: React.FC<QuizOptionsFormProps> = ({ options, onChange, disabled }) => {
+  const { questionTypes, questionCount, difficulty } = resolveQuizOptions(options);
+
+  const toggleType = (type: QuizQuestionType) => {
+    const next = questionTypes.includes(type) ? questionTypes.filter(t => t !== type) : [...questionTypes, type];
+    onChange({ ...options, questionTypes: next.length > 0 ? next : DEFAULT_QUIZ_OPTIONS.questionTypes });
+  };
+
+  return (
+    <fieldset disabled={disabled} className="bg-slate-800/50 border border-slate-700 rounded-lg p-3 space-y-3 disabled:opacity-60">
+      <div>
+        <span className="block text-sm font-medium text-slate-400 mb-1">Question types</span>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(QUIZ_QUESTION_TYPES) as QuizQuestionType[]).map(type => (
+            <label key={type} className="flex items-center gap-1.5 text-sm text-slate-300">
+              <input type="checkbox" checked={questionTypes.includes(type)} onChange={() => toggleType(type)} className="accent-sky-500" />
+              {QUIZ_QUESTION_TYPES[type]}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-3">
+        <label className="text-sm text-slate-400">
+          Difficulty
+          <select
+            value={difficulty}
+            onChange={(e) => onChange({ ...options, difficulty: e.target.value as QuizDifficulty })}
+            className="ml-2 p-1.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 capitalize focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+          >
+            {DIFFICULTIES.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-slate-400">
+          Questions
+          <input
+            type="number"
+            min={1}
+            max={MAX_QUIZ_QUESTIONS}
+            value={questionCount}
+            onChange={(e) => onChange({ ...options, questionCount: Number(e.target.value) })}
+            className="ml-2 w-16 p-1.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+          />
+        </label>
+      </div>
+      <label className="block text-sm text-slate-400">
+        Focus on (optional)
+        <input
+          type="text"
+          value={options.topic ?? ''}
+          onChange={(e) => onChange({ ...options, topic: e.target.value })}
+          placeholder="e.g. chapter 3, photosynthesis"
+          className="mt-1 w-full p-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+        />
+      </label>
+    </fieldset>
+  );
+};
+
+export default QuizOptionsForm;
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import Spinner from './common/Spinner';
+import { CloseIcon } from './common/Icon';
+import {
+  QuizSessionState, QuizResult, QuizAnswer, ORDER_SEPARATOR, currentQuestion, currentAnswer, correctAnswerText, isFreeTextQuestion,
+  scoreQuizRound, missedQuestionIndices,
+} from '../lib/quizSession';
+import { TypedQuizQuestion } from '../lib/quizGeneration';
+
+interface QuizPlayerProps {
+  session: QuizSessionState;
+  explanation: string | null;
+  isExplaining: boolean;
+  pastResults: QuizResult[];
+  onAnswer: (option: string) => void;
+  onNext: () => void;
+  onRetryMissed: () => void;
+  onExit: () => void;
+}
+
+const optionClassName = (option: string, selected: string | undefined, correct: string | undefined) => {
+  const base = 'w-full text-left p-3 rounded-lg border transition-colors';
+  if (selected === undefined) return `${base} bg-slate-800 border-slate-700 text-slate-200 hover:border-sky-500 hover:bg-slate-700/50`;
+  if (option === correct) return `${base} bg-green-500/10 border-green-500/50 text-green-300`;
+  if (option === selected) return `${base} bg-red-500/10 border-red-500/50 text-red-300`;
+  return `${base} bg-slate-800 border-slate-700 text-slate-500`;
+};
+
+const QuizResults: React.FC<Pick<QuizPlayerProps, 'session' | 'pastResults' | 'onRetryMissed' | 'onExit'>> = ({ session, pastResults, onRetryMissed, onExit }) => {
+  const { correct, total } = scoreQuizRound(session);
+  const missed = missedQuestionIndices(session);
+
+  return (
+    <div className="text-center">
+      <p className="text-4xl font-bold text-sky-400">{correct}/{total}</p>
+      <p className="mt-1 text-slate-400">
+        {session.round > 1 ? `Retry round ${session.round - 1}` : 'Quiz complete'} · {Math.round((correct / Math.max(total, 1)) * 100)}%
+      </p>
+      {missed.length > 0 && (
+        <ul className="mt-4 text-left text-sm text-slate-300 list-disc list-inside space-y-1">
+          {missed.map(index => <li key={index}>{session.quiz.questions[index].question}</li>)}
+        </ul>
+      )}
+      <div className="mt-6 flex justify-center gap-3">
+        {missed.length > 0 && (
+          <button type="button" onClick={onRetryMissed} className="py-2 px-4 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg">
+            Retry the {missed.length} I missed
+          </button>
+        )}
+        <button type="button" onClick={onExit} className="py-2 px-4 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg">
+          Done
+        </button>
+      </div>
+      {session.source && pastResults.length > 1 && (
+        <div className="mt-6 text-left">
+          <h4 className="text-sm font-semibold text-slate-400 mb-1">Earlier results for "{session.source.documentName}"</h4>
+          <ul className="text-xs text-slate-500 space-y-0.5">
+            {pastResults.slice(1, 6).map(result => (
+              <li key={result.id}>
+                {new Date(result.completedAt).toLocaleString()} · {result.correct}/{result.total}{result.round > 1 ? ' (retry)' : ''}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const checkButtonClassName = 'mt-3 py-2 px-4 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed';
+
+interface AnswerInputProps {
+  question: TypedQuizQuestion;
+  answer?: QuizAnswer;
+  correct: string;
+  onAnswer: (answer: string) => void;
+}
+
+const FreeTextAnswer: React.FC<AnswerInputProps> = ({ answer, onAnswer }) => {
+  const [text, setText] = useState('');
+  return (
+    <form onSubmit={(e) => { e.preventDefault(); if (text.trim()) onAnswer(text); }}>
+      <input
+        type="text"
+        value={answer ? answer.selected : text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={!!answer}
+        placeholder="Type your answer"
+        className="w-full p-3 bg-slate-800 border border-slate-700 rounded-lg text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+        autoFocus
+      />
+      {!answer && <button type="submit" disabled={!text.trim()} className={checkButtonClassName}>Check</button>}
+    </form>
+  );
+};
+
+const OrderingAnswer: React.FC<AnswerInputProps> = ({ question, answer, onAnswer }) => {
+  const [order, setOrder] = useState(question.options);
+  const items = answer ? answer.selected.split(ORDER_SEPARATOR) : order;
+  const move = (index: number, offset: number) => setOrder(prev => {
+    const next = [...prev];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    return next;
+  });
+
+  return (
+    <div>
+      <ol className="space-y-2">
+        {items.map((item, index) => (
+          <li key={item} className="flex items-center gap-2 p-3 rounded-lg border bg-slate-800 border-slate-700 text-slate-200">
+            <span className="text-slate-500 w-5">{index + 1}.</span>
+            <span className="flex-1">{item}</span>
+            {!answer && (
+              <>
+                <button type="button" onClick={() => move(index, -1)} disabled={index === 0} className="px-2 text-slate-400 hover:text-sky-400 disabled:opacity-30" aria-label={`Move "${item}" up`}>↑</button>
+                <button type="button" onClick={() => move(index, 1)} disabled={index === items.length - 1} className="px-2 text-slate-400 hover:text-sky-400 disabled:opacity-30" aria-label={`Move "${item}" down`}>↓</button>
+              </>
+            )}
+          </li>
+        ))}
+      </ol>
+      {!answer && <button type="button" onClick={() => onAnswer(order.join(ORDER_SEPARATOR))} className={checkButtonClassName}>Check order</button>}
+    </div>
+  );
+};
+
+const OptionAnswer: React.FC<AnswerInputProps> = ({ question, answer, correct, onAnswer }) => (
+  <div className="space-y-2">
+    {question.options.map(option => (
+      <button
+        key={option}
+        type="button"
+        onClick={() => onAnswer(option)}
+        disabled={!!answer}
+        className={optionClassName(option, answer?.selected, correct)}
+      >
+        {option}
+      </button>
+    ))}
+  </div>
+);
+
+const QuizPlayer: React.FC<QuizPlayerProps> = ({ session, explanation, isExplaining, pastResults, onAnswer, onNext, onRetryMissed, onExit }) => {
+  const question = currentQuestion(session);
+  const answer = currentAnswer(session);
+  const correct = question ? correctAnswerText(question) : '';
+  const AnswerInput = !question ? OptionAnswer
+    : question.type === 'ordering' ? OrderingAnswer
+    : isFreeTextQuestion(question) ? FreeTextAnswer
+    : OptionAnswer;
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 sm:p-6">
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-sm text-slate-400">
+          {session.finished ? 'Results' : `Question ${session.position + 1} of ${session.questionOrder.length}`}
+          {session.source && ` · ${session.source.documentName}`}
+        </span>
+        <button type="button" onClick={onExit} className="p-1 rounded-full text-slate-500 hover:text-slate-300 hover:bg-slate-700" aria-label="Exit quiz">
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {session.finished ? (
+        <QuizResults session={session} pastResults={pastResults} onRetryMissed={onRetryMissed} onExit={onExit} />
+      ) : question && (
+        <>
+          <p className="text-lg text-slate-200 mb-4">{question.question}</p>
+          <AnswerInput key={`${session.round}-${session.position}`} question={question} answer={answer} correct={correct} onAnswer={onAnswer} />
+
+          {answer && (
+            <div className="mt-4">
+              <p className={`font-semibold ${answer.correct ? 'text-green-400' : 'text-red-400'}`}>
+                {answer.correct ? 'Correct!' : `Not quite. The answer is: ${correct}`}
+              </p>
+              {isExplaining ? (
+                <div className="mt-2 flex items-center gap-2 text-sm text-slate-400"><Spinner /> Explaining from your document...</div>
+              ) : explanation && (
+                <p className="mt-2 text-sm text-slate-300 whitespace-pre-wrap">{explanation}</p>
+              )}
+              <button type="button" onClick={onNext} className="mt-4 w-full py-2 px-4 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg">
+                {session.position + 1 < session.questionOrder.length ? 'Next question' : 'See results'}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QuizPlayer;
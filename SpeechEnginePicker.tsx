@@ -0,0 +1,69 @@
+import React from 'react';
+import { SpeechEngine, SpeechEngineSettings, getSpeechEngines } from '../lib/speechEngines';
+
+interface SpeechEnginePickerProps {
+  settings: SpeechEngineSettings;
+  /** The engine actually in use, which differs from the chosen one when this browser can't run it. */
+  activeEngine: SpeechEngine | null;
+  onChange: (changes: Partial<SpeechEngineSettings>) => void;
+}
+
+const inputClassName = 'w-full p-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500';
+
+const SpeechEnginePicker: React.FC<SpeechEnginePickerProps> = ({ settings, activeEngine, onChange }) => {
+  const engines = getSpeechEngines();
+  const chosen = engines.find(engine => engine.id === settings.engineId);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="speech-engine" className="block text-sm font-medium text-slate-400 mb-1">
+          Speech engine
+        </label>
+        <select
+          id="speech-engine"
+          value={settings.engineId ?? ''}
+          onChange={(e) => onChange({ engineId: e.target.value || null })}
+          className={inputClassName}
+        >
+          <option value="">Automatic</option>
+          {engines.map(engine => (
+            <option key={engine.id} value={engine.id}>{engine.name}</option>
+          ))}
+        </select>
+        {chosen && <p className="mt-1 text-xs text-slate-500">{chosen.description}</p>}
+        {chosen && activeEngine?.id !== chosen.id && (
+          <p className="mt-1 text-xs text-amber-400">
+            {chosen.name} isn't available here{activeEngine ? `, so ${activeEngine.name} is used instead` : ''}.
+          </p>
+        )}
+        {!activeEngine && (
+          <p className="mt-1 text-xs text-amber-400">This browser can't recognize speech itself. Add a transcription URL to use a speech service.</p>
+        )}
+      </div>
+
+      <label className="block text-sm text-slate-400">
+        Transcription URL
+        <input
+          type="url"
+          value={settings.transcriptionUrl}
+          onChange={(e) => onChange({ transcriptionUrl: e.target.value })}
+          placeholder="https://example.com/transcribe"
+          className={`mt-1 ${inputClassName}`}
+        />
+      </label>
+      <label className="block text-sm text-slate-400">
+        Speech synthesis URL <span className="text-slate-500">(optional)</span>
+        <input
+          type="url"
+          value={settings.synthesisUrl}
+          onChange={(e) => onChange({ synthesisUrl: e.target.value })}
+          placeholder="https://example.com/synthesize"
+          className={`mt-1 ${inputClassName}`}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default SpeechEnginePicker;
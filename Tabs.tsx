@@ -1,11 +1,12 @@
 
 import React from 'react';
-import { LearningMode, PanelConfig } from '../types';
+import { ModeTabConfig, StudyMode } from '../config/studyModes';
 
 interface TabsProps {
-  activeMode: LearningMode;
-  onModeChange: (mode: LearningMode) => void;
-  configs: PanelConfig[];
+  activeMode: StudyMode;
+  onModeChange: (mode: StudyMode) => void;
+  /** The learning modes' panel configs, followed by flashcardsModeConfig. */
+  configs: ModeTabConfig[];
 }
 
 const Tabs: React.FC<TabsProps> = ({ activeMode, onModeChange, configs }) => {
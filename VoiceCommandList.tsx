@@ -0,0 +1,27 @@
+import React from 'react';
+import { VoiceCommand } from '../lib/voiceCommands';
+
+interface VoiceCommandListProps {
+  commands: VoiceCommand[];
+}
+
+const VoiceCommandList: React.FC<VoiceCommandListProps> = ({ commands }) => (
+  <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-3">
+    <h3 className="text-sm font-semibold text-slate-400 mb-2">Things you can say</h3>
+    <ul className="space-y-2">
+      {commands.map(command => (
+        <li key={command.id} className="text-sm">
+          <span className="text-slate-200">"{command.phrases[0]}"</span>
+          <span className="text-slate-500"> · {command.description}</span>
+          {command.phrases.length > 1 && (
+            <p className="text-xs text-slate-600">
+              Also: {command.phrases.slice(1, 4).map(phrase => `"${phrase}"`).join(', ')}
+            </p>
+          )}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default VoiceCommandList;
@@ -0,0 +1,108 @@
+import React from 'react';
+import {
+  MAX_SPEECH_PITCH, MAX_SPEECH_RATE, MIN_SPEECH_PITCH, MIN_SPEECH_RATE, VOICE_LANGUAGES, VoiceLanguageCode, VoiceSettings,
+  voicesForLanguage,
+} from '../lib/voiceSettings';
+import { SpeechVoice } from '../lib/speechEngines';
+
+interface VoiceSettingsPanelProps {
+  settings: VoiceSettings;
+  voices: SpeechVoice[];
+  onChange: (changes: Partial<VoiceSettings>) => void;
+}
+
+const selectClassName = 'w-full p-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500';
+
+const VoiceSettingsPanel: React.FC<VoiceSettingsPanelProps> = ({ settings, voices, onChange }) => {
+  const languageVoices = voicesForLanguage(voices, settings.language);
+  // Few browsers have Afrikaans or isiZulu voices, so every voice stays available to choose from.
+  const otherVoices = voices.filter(v => !languageVoices.includes(v));
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-3 space-y-3">
+      <h3 className="text-sm font-semibold text-slate-400">Voice settings</h3>
+
+      <div>
+        <label htmlFor="voice-language" className="block text-sm font-medium text-slate-400 mb-1">Language</label>
+        <select
+          id="voice-language"
+          value={settings.language}
+          onChange={(e) => onChange({ language: e.target.value as VoiceLanguageCode })}
+          className={selectClassName}
+        >
+          {VOICE_LANGUAGES.map(language => (
+            <option key={language.code} value={language.code}>{language.name}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-slate-500">The tutor listens and replies in this language.</p>
+      </div>
+
+      <div>
+        <label htmlFor="voice-picker" className="block text-sm font-medium text-slate-400 mb-1">Voice</label>
+        <select
+          id="voice-picker"
+          value={settings.voiceURI ?? ''}
+          onChange={(e) => onChange({ voiceURI: e.target.value || null })}
+          className={selectClassName}
+        >
+          <option value="">Automatic</option>
+          {languageVoices.length > 0 && (
+            <optgroup label="For this language">
+              {languageVoices.map(voice => (
+                <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+              ))}
+            </optgroup>
+          )}
+          {otherVoices.length > 0 && (
+            <optgroup label="Other voices">
+              {otherVoices.map(voice => (
+                <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {languageVoices.length === 0 && (
+          <p className="mt-1 text-xs text-slate-500">Your browser has no voice for this language, so answers are read with its default voice.</p>
+        )}
+      </div>
+
+      <label className="block text-sm text-slate-400">
+        Speed <span className="text-slate-500">({settings.rate.toFixed(2)}×)</span>
+        <input
+          type="range"
+          min={MIN_SPEECH_RATE}
+          max={MAX_SPEECH_RATE}
+          step={0.05}
+          value={settings.rate}
+          onChange={(e) => onChange({ rate: Number(e.target.value) })}
+          className="mt-1 w-full accent-sky-500"
+        />
+      </label>
+
+      <label className="block text-sm text-slate-400">
+        Pitch <span className="text-slate-500">({settings.pitch.toFixed(2)})</span>
+        <input
+          type="range"
+          min={MIN_SPEECH_PITCH}
+          max={MAX_SPEECH_PITCH}
+          step={0.05}
+          value={settings.pitch}
+          onChange={(e) => onChange({ pitch: Number(e.target.value) })}
+          className="mt-1 w-full accent-sky-500"
+        />
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-slate-400">
+        <input
+          type="checkbox"
+          checked={settings.modulation}
+          onChange={(e) => onChange({ modulation: e.target.checked })}
+          className="accent-sky-500"
+        />
+        Vary pitch and speed between sentences
+      </label>
+    </div>
+  );
+};
+
+export default VoiceSettingsPanel;
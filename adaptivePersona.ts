@@ -0,0 +1,61 @@
+import { Persona } from '../types';
+import { personaList } from '../config/personaConfig';
+
+/** Something the learner did that hints at whether the current level suits them. */
+export type LearnerSignal =
+  | { type: 'quiz_answer'; correct: boolean }
+  | { type: 'message'; text: string };
+
+export interface AdaptiveState {
+  level: Persona;
+  /** Evidence gathered since the last change; positive means the learner is ready for more. */
+  score: number;
+}
+
+// The difficulty levels the Adaptive persona moves between, easiest first, in the order of personaList.
+export const ADAPTIVE_LEVELS: Persona[] = personaList
+  .map(persona => persona.id)
+  .filter((id): id is Persona => id === Persona.Simple || id === Persona.Default || id === Persona.Expert);
+
+export const INITIAL_ADAPTIVE_STATE: AdaptiveState = { level: Persona.Default, score: 0 };
+
+// How much evidence it takes to move a level; an explicit request is enough on its own.
+const LEVEL_CHANGE_THRESHOLD = 3;
+// A word like "confusing" or "technical" on its own may be about the subject rather than the explanation.
+const KEYWORD_WEIGHT = 1;
+
+const SIMPLER_REQUEST = /\b(explain( (it|that|this))?( more)? (simply|simpler)|(make|say|put|keep) (it|that) (simpler|easier|simple)|in (plain|simple) (english|language|terms)|(can|could) you simplify|eli5|explain (it )?like i'?m (5|five)|break it down|i (don'?t|do not) (understand|get it)|(that'?s|this is|it'?s) too (hard|complicated|technical|confusing)|i'?m (lost|confused))\b/i;
+const HARDER_REQUEST = /\b(go deeper|(in|into) more (detail|depth)|more in[- ]depth|(be|get) more (technical|rigorous)|(that'?s|this is|it'?s) too (easy|basic|simple)|(give me|i want) the (advanced|technical) (version|explanation|answer))\b/i;
+const SIMPLER_KEYWORD = /\b(simpler|easier|confus(ed|ing)|lost)\b/i;
+const HARDER_KEYWORD = /\b(advanced|technical(ly)?|rigorous|in[- ]depth)\b/i;
+
+const signalWeight = (signal: LearnerSignal): number => {
+  if (signal.type === 'quiz_answer') return signal.correct ? 1 : -1;
+
+  if (SIMPLER_REQUEST.test(signal.text)) return -LEVEL_CHANGE_THRESHOLD;
+  if (HARDER_REQUEST.test(signal.text)) return LEVEL_CHANGE_THRESHOLD;
+  if (SIMPLER_KEYWORD.test(signal.text)) return -KEYWORD_WEIGHT;
+  if (HARDER_KEYWORD.test(signal.text)) return KEYWORD_WEIGHT;
+  // Long, detailed questions suggest confidence; terse replies like "what?" or "huh" suggest the opposite.
+  const words = signal.text.trim().split(/\s+/).filter(Boolean).length;
+  if (words >= 40) return 0.5;
+  if (words <= 3) return -0.5;
+  return 0;
+};
+
+/**
+ * Folds a learner signal into the adaptive state, moving one level up or down once enough evidence has built up.
+ * The evidence resets after every move, and at the top or bottom level it stops accumulating in that direction.
+ */
+export const applyLearnerSignal = (state: AdaptiveState, signal: LearnerSignal): AdaptiveState => {
+  const index = Math.max(0, ADAPTIVE_LEVELS.indexOf(state.level));
+  const score = state.score + signalWeight(signal);
+
+  if (score >= LEVEL_CHANGE_THRESHOLD) {
+    return index < ADAPTIVE_LEVELS.length - 1 ? { level: ADAPTIVE_LEVELS[index + 1], score: 0 } : { level: state.level, score: 0 };
+  }
+  if (score <= -LEVEL_CHANGE_THRESHOLD) {
+    return index > 0 ? { level: ADAPTIVE_LEVELS[index - 1], score: 0 } : { level: state.level, score: 0 };
+  }
+  return { level: state.level, score };
+};
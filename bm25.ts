@@ -0,0 +1,87 @@
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it', 'of',
+  'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with',
+]);
+
+/**
+ * Lowercases text and splits it into searchable terms.
+ * Dotted and hyphenated runs such as "4.2" or "beta-oxidation" stay whole so section numbers and
+ * formula names match verbatim.
+ */
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+(?:[.\-_][\p{L}\p{N}]+)*/gu) || [])
+    .filter(term => !STOP_WORDS.has(term));
+
+/**
+ * An in-memory Okapi BM25 keyword index over keyed passages.
+ */
+export class Bm25Index {
+  private termFrequencies = new Map<string, Map<string, number>>();
+  private lengths = new Map<string, number>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(private k1 = 1.2, private b = 0.75) {}
+
+  add(key: string, text: string) {
+    this.remove(key);
+    const frequencies = new Map<string, number>();
+    const terms = tokenize(text);
+    terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+    frequencies.forEach((_, term) => {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+    });
+    this.termFrequencies.set(key, frequencies);
+    this.lengths.set(key, terms.length);
+    this.totalLength += terms.length;
+  }
+
+  remove(key: string) {
+    const frequencies = this.termFrequencies.get(key);
+    if (!frequencies) return;
+    frequencies.forEach((_, term) => {
+      const count = (this.documentFrequencies.get(term) || 1) - 1;
+      if (count > 0) {
+        this.documentFrequencies.set(term, count);
+      } else {
+        this.documentFrequencies.delete(term);
+      }
+    });
+    this.totalLength -= this.lengths.get(key) || 0;
+    this.termFrequencies.delete(key);
+    this.lengths.delete(key);
+  }
+
+  /**
+   * Scores passages against a query.
+   * @param keys Restricts scoring to these passages; scores every passage when omitted.
+   * @returns A map of passage key to BM25 score, containing only passages with a positive score.
+   */
+  score(query: string, keys?: Iterable<string>): Map<string, number> {
+    const scores = new Map<string, number>();
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const passageCount = this.termFrequencies.size;
+    if (queryTerms.length === 0 || passageCount === 0) return scores;
+
+    const averageLength = this.totalLength / passageCount || 1;
+    const inverseFrequencies = queryTerms.map(term => {
+      const frequency = this.documentFrequencies.get(term) || 0;
+      return Math.log(1 + (passageCount - frequency + 0.5) / (frequency + 0.5));
+    });
+
+    for (const key of keys ?? this.termFrequencies.keys()) {
+      const frequencies = this.termFrequencies.get(key);
+      if (!frequencies) continue;
+      const length = this.lengths.get(key) || 0;
+      let score = 0;
+      queryTerms.forEach((term, i) => {
+        const frequency = frequencies.get(term);
+        if (!frequency) return;
+        score += inverseFrequencies[i] * (frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + this.b * length / averageLength));
+      });
+      if (score > 0) scores.set(key, score);
+    }
+    return scores;
+  }
+}
@@ -0,0 +1,175 @@
+import { ChatMessage, LearningMode } from '../types';
+import { STORES, getAllRecords, putRecord, deleteRecord, createRecordId } from './localDb';
+import { QuizSource } from './quizSession';
+
+export interface ChatSession {
+  id: string;
+  mode: LearningMode;
+  name: string;
+  messages: ChatMessage[];
+  /** The document each quiz message came from, by message id. Only the reference is kept, not the text. */
+  quizSources?: Record<string, QuizSource>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ChatSessionExportFormat = 'json' | 'markdown';
+
+const EXPORT_FORMAT = 'celestial-learning-hub/chat-session';
+const EXPORT_VERSION = 1;
+
+export const listChatSessions = async (): Promise<ChatSession[]> => {
+  const sessions = await getAllRecords<ChatSession>(STORES.chatSessions);
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveChatSession = async (session: ChatSession): Promise<void> => {
+  await putRecord(STORES.chatSessions, session);
+};
+
+export const deleteChatSession = async (sessionId: string): Promise<void> => {
+  await deleteRecord(STORES.chatSessions, sessionId);
+};
+
+export const createSessionId = (): string => createRecordId('session');
+
+/** The sources of the session's quizzes, without their text. */
+export const sessionQuizSources = (messages: ChatMessage[], sources: Record<string, QuizSource>): Record<string, QuizSource> =>
+  Object.fromEntries(messages.flatMap(({ id }) => {
+    const source = sources[id];
+    return source ? [[id, { documentKey: source.documentKey, documentName: source.documentName }]] : [];
+  }));
+
+// Imported files are untrusted, so anything that isn't a well-formed reference is dropped.
+const readQuizSources = (value: unknown): Record<string, QuizSource> =>
+  Object.fromEntries(Object.entries(value && typeof value === 'object' ? value : {}).flatMap(([id, source]: [string, any]) =>
+    typeof source?.documentKey === 'string' && typeof source.documentName === 'string'
+      ? [[id, { documentKey: source.documentKey, documentName: source.documentName }]]
+      : []));
+
+/**
+ * Names a session after the first question asked in it.
+ */
+export const defaultSessionName = (messages: ChatMessage[]): string => {
+  const firstQuestion = messages.find(m => m.sender === 'user' && typeof m.content === 'string')?.content as string | undefined;
+  if (!firstQuestion) return `Session from ${new Date().toLocaleString()}`;
+  const singleLine = firstQuestion.replace(/\s+/g, ' ').trim();
+  return singleLine.length > 60 ? `${singleLine.slice(0, 57)}...` : singleLine;
+};
+
+const SENDER_LABELS: Record<ChatMessage['sender'], string> = {
+  user: 'You',
+  ai: 'Assistant',
+  system: 'System',
+};
+
+// A readable rendering of structured content; the exact content travels alongside it as JSON.
+const describeContent = (content: any): string => {
+  if (typeof content.answer === 'string') {
+    const sources = Array.isArray(content.sources) && content.sources.length > 0
+      ? `\n\nSources:\n${content.sources.map((source: any) => `- ${source.title || source.content}`).join('\n')}`
+      : '';
+    return `${content.answer}${sources}`;
+  }
+  if (Array.isArray(content.questions)) {
+    return content.questions
+      .map((q: any, i: number) => `${i + 1}. ${q.question}${Array.isArray(q.options) ? `\n${q.options.map((o: string) => `   - ${o}`).join('\n')}` : ''}`)
+      .join('\n');
+  }
+  if (content.type === 'document_overview') {
+    return `Document overview of "${content.data?.fileName}"${content.data?.summary ? `\n\n${content.data.summary}` : ''}`;
+  }
+  return `_${content.type ?? 'Structured'} content_`;
+};
+
+// HTML comments end at "-->", so it is escaped inside the JSON they carry.
+const toComment = (label: string, value: unknown) => `<!-- ${label} ${JSON.stringify(value).replace(/-->/g, '--\\u003e')} -->`;
+
+const toMarkdown = (session: ChatSession): string => {
+  const header = toComment('chat-session', {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    id: session.id,
+    mode: session.mode,
+    name: session.name,
+    quizSources: session.quizSources,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  });
+  const messages = session.messages.map(({ content, ...meta }) => {
+    const structured = typeof content !== 'string';
+    const body = structured
+      ? `${describeContent(content)}\n\n\`\`\`json chat-content\n${JSON.stringify(content, null, 2)}\n\`\`\``
+      : content;
+    return `${toComment('message', { ...meta, structured })}\n**${SENDER_LABELS[meta.sender] ?? meta.sender}:**\n\n${body}`;
+  });
+  return [header, `# ${session.name}`, `_${session.mode} · ${new Date(session.createdAt).toLocaleString()}_`, ...messages].join('\n\n') + '\n';
+};
+
+const fileSafeName = (name: string) => name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'chat-session';
+
+export const exportChatSession = (session: ChatSession, format: ChatSessionExportFormat): { fileName: string; mimeType: string; text: string } => {
+  if (format === 'markdown') {
+    return { fileName: `${fileSafeName(session.name)}.md`, mimeType: 'text/markdown', text: toMarkdown(session) };
+  }
+  return {
+    fileName: `${fileSafeName(session.name)}.json`,
+    mimeType: 'application/json',
+    text: JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, session }, null, 2),
+  };
+};
+
+const fromMarkdown = (markdown: string): Partial<ChatSession> => {
+  const header = markdown.match(/<!-- chat-session (\{.*?\}) -->/);
+  if (!header) throw new Error('This Markdown file was not exported from a chat session.');
+  const { format, version, ...session } = JSON.parse(header[1]);
+  if (format !== EXPORT_FORMAT || version > EXPORT_VERSION) throw new Error('Unsupported chat session file.');
+
+  const parts = markdown.split(/<!-- message (\{.*?\}) -->\n/);
+  const messages: ChatMessage[] = [];
+  // split() with a capture group alternates between message metadata and the message body.
+  for (let i = 1; i < parts.length; i += 2) {
+    const { structured, ...meta } = JSON.parse(parts[i]);
+    const body = parts[i + 1].replace(/^\*\*[^*\n]+:\*\*\n\n/, '').replace(/\n+$/, '');
+    let content: ChatMessage['content'] = body;
+    if (structured) {
+      const json = body.match(/```json chat-content\n([\s\S]*)\n```$/);
+      if (!json) throw new Error(`Message ${meta.id} is missing its structured content.`);
+      content = JSON.parse(json[1]);
+    }
+    messages.push({ ...meta, content });
+  }
+  return { ...session, messages };
+};
+
+/**
+ * Reads a session exported as JSON or Markdown. The imported session gets a new id so it never
+ * overwrites the one it was exported from.
+ */
+export const importChatSession = (text: string, fileName: string): ChatSession => {
+  const data: Partial<ChatSession> = /\.(md|markdown)$/i.test(fileName)
+    ? fromMarkdown(text)
+    : (() => {
+        const parsed = JSON.parse(text);
+        if (parsed?.format !== EXPORT_FORMAT || !parsed.session) throw new Error('This JSON file is not an exported chat session.');
+        if (parsed.version > EXPORT_VERSION) throw new Error('Unsupported chat session file.');
+        return parsed.session;
+      })();
+
+  if (!data.mode || !Object.values(LearningMode).includes(data.mode)) {
+    throw new Error('The chat session is for an unknown learning mode.');
+  }
+  if (!Array.isArray(data.messages)) {
+    throw new Error('The chat session has no messages.');
+  }
+  const now = Date.now();
+  return {
+    id: createSessionId(),
+    mode: data.mode,
+    name: data.name || defaultSessionName(data.messages),
+    messages: data.messages,
+    quizSources: readQuizSources(data.quizSources),
+    createdAt: data.createdAt ?? now,
+    updatedAt: now,
+  };
+};
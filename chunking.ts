@@ -0,0 +1,245 @@
+export interface TextChunk {
+  /** The text that gets embedded; heading-aware chunks are prefixed with their section title. */
+  text: string;
+  /** Offsets of the chunk's body within the source text. */
+  start: number;
+  end: number;
+}
+
+export interface ChunkerOptions {
+  chunkSize: number;
+  overlap: number;
+}
+
+export type Chunker = (text: string, options: ChunkerOptions) => TextChunk[];
+
+export type ChunkingStrategyName = 'fixed' | 'sentence' | 'heading' | 'token';
+
+export interface ChunkingOptions {
+  /** A built-in strategy name, or a custom chunker. */
+  strategy?: ChunkingStrategyName | Chunker;
+  /** Characters per chunk, or tokens per chunk for the `token` strategy. */
+  chunkSize?: number;
+  /** Overlap between neighbouring chunks, in the same unit as `chunkSize`. */
+  overlap?: number;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const DEFAULT_SIZES: Record<ChunkingStrategyName, ChunkerOptions> = {
+  fixed: { chunkSize: 1000, overlap: 200 },
+  sentence: { chunkSize: 1000, overlap: 200 },
+  heading: { chunkSize: 1000, overlap: 150 },
+  token: { chunkSize: 256, overlap: 32 },
+};
+
+export const DEFAULT_CHUNKING: ChunkingOptions = { strategy: 'sentence' };
+
+/**
+ * Roughly estimates how many model tokens a piece of text uses.
+ * Words average a little over one token; punctuation and symbols count as one each.
+ */
+export const estimateTokens = (text: string): number => {
+  const words = text.match(/\w+/g)?.length ?? 0;
+  const symbols = text.match(/[^\w\s]/g)?.length ?? 0;
+  return Math.ceil(words * 1.3) + symbols;
+};
+
+const trimSpan = (text: string, span: Span): Span | null => {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? { start, end } : null;
+};
+
+const splitAt = (text: string, span: Span, separator: RegExp): Span[] => {
+  const spans: Span[] = [];
+  const slice = text.slice(span.start, span.end);
+  const pattern = new RegExp(separator.source, 'g');
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(slice)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    const piece = trimSpan(text, { start: span.start + cursor, end: span.start + match.index + match[0].length });
+    if (piece) spans.push(piece);
+    cursor = match.index + match[0].length;
+  }
+  const rest = trimSpan(text, { start: span.start + cursor, end: span.end });
+  if (rest) spans.push(rest);
+  return spans;
+};
+
+const splitParagraphs = (text: string, span: Span) => splitAt(text, span, /\n\s*\n/);
+
+// A sentence ends at terminal punctuation followed by whitespace, so decimals like 3.14 stay intact.
+const splitSentences = (text: string, span: Span) => splitAt(text, span, /[.!?]+["')\]]*(?=\s)|\n/);
+
+const hardSplit = (span: Span, maxLength: number): Span[] => {
+  const spans: Span[] = [];
+  for (let start = span.start; start < span.end; start += maxLength) {
+    spans.push({ start, end: Math.min(start + maxLength, span.end) });
+  }
+  return spans;
+};
+
+/**
+ * Breaks a region into the smallest natural units that fit the budget:
+ * paragraphs first, then sentences, then fixed windows as a last resort.
+ */
+const naturalUnits = (text: string, span: Span, maxSize: number, measure: (span: Span) => number): Span[] => {
+  const units: Span[] = [];
+  splitParagraphs(text, span).forEach(paragraph => {
+    if (measure(paragraph) <= maxSize) {
+      units.push(paragraph);
+      return;
+    }
+    splitSentences(text, paragraph).forEach(sentence => {
+      if (measure(sentence) <= maxSize) {
+        units.push(sentence);
+        return;
+      }
+      const maxLength = Math.max(1, Math.floor((sentence.end - sentence.start) * maxSize / measure(sentence)));
+      units.push(...hardSplit(sentence, maxLength));
+    });
+  });
+  return units;
+};
+
+/**
+ * Greedily packs consecutive units into chunks, carrying trailing units forward as overlap.
+ */
+const packUnits = (units: Span[], { chunkSize, overlap }: ChunkerOptions, measure: (span: Span) => number): Span[] => {
+  const chunks: Span[] = [];
+  let current: Span[] = [];
+  let currentSize = 0;
+
+  units.forEach(unit => {
+    const unitSize = measure(unit);
+    if (current.length > 0 && currentSize + unitSize > chunkSize) {
+      chunks.push({ start: current[0].start, end: current[current.length - 1].end });
+
+      const carried: Span[] = [];
+      let carriedSize = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        const size = measure(current[i]);
+        if (carriedSize + size > overlap) break;
+        carried.unshift(current[i]);
+        carriedSize += size;
+      }
+      current = carried;
+      currentSize = carriedSize;
+    }
+    current.push(unit);
+    currentSize += unitSize;
+  });
+
+  if (current.length > 0) {
+    chunks.push({ start: current[0].start, end: current[current.length - 1].end });
+  }
+  return chunks;
+};
+
+const toChunks = (text: string, spans: Span[], heading?: string): TextChunk[] =>
+  spans.map(({ start, end }) => {
+    const body = text.slice(start, end);
+    return { text: heading && !body.startsWith(heading) ? `${heading}\n${body}` : body, start, end };
+  });
+
+const fixedChunker: Chunker = (text, { chunkSize, overlap }) => {
+  const chunks: TextChunk[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const end = Math.min(i + chunkSize, text.length);
+    chunks.push({ text: text.slice(i, end), start: i, end });
+    i += chunkSize - overlap;
+    if (end === text.length) break;
+  }
+  return chunks;
+};
+
+const sentenceChunker: Chunker = (text, options) => {
+  const measure = (span: Span) => span.end - span.start;
+  const units = naturalUnits(text, { start: 0, end: text.length }, options.chunkSize, measure);
+  return toChunks(text, packUnits(units, options, measure));
+};
+
+const tokenChunker: Chunker = (text, options) => {
+  const measure = (span: Span) => estimateTokens(text.slice(span.start, span.end));
+  const units = naturalUnits(text, { start: 0, end: text.length }, options.chunkSize, measure);
+  return toChunks(text, packUnits(units, options, measure));
+};
+
+const HEADING_PATTERNS = [
+  /^#{1,6}\s+\S/,                                             // Markdown headings
+  /^(chapter|section|part|unit|lecture|module)\s+[\dIVXLC]+\b/i, // "Chapter 3", "Lecture IV"
+  /^\d+(\.\d+)*\.?\s+[A-Z][^.!?]*$/,                          // "4.2 Cell Respiration"
+  /^[A-Z][A-Z0-9 ,:&'-]{3,60}$/,                              // "PHOTOSYNTHESIS"
+];
+
+const isHeading = (line: string) => line.length <= 100 && HEADING_PATTERNS.some(pattern => pattern.test(line));
+
+const headingChunker: Chunker = (text, options) => {
+  const sections: { heading?: string; span: Span }[] = [];
+  let sectionStart = 0;
+  let heading: string | undefined;
+
+  const linePattern = /[^\n]*(\n|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = linePattern.exec(text)) !== null && match[0].length > 0) {
+    const line = match[0].trim();
+    if (line && isHeading(line)) {
+      sections.push({ heading, span: { start: sectionStart, end: match.index } });
+      heading = line.replace(/^#+\s*/, '');
+      sectionStart = match.index + match[0].length;
+    }
+  }
+  sections.push({ heading, span: { start: sectionStart, end: text.length } });
+
+  const measure = (span: Span) => span.end - span.start;
+  return sections.flatMap(section => {
+    // Leave room for the heading that gets prefixed to every chunk of its section.
+    const budget = Math.max(options.chunkSize - (section.heading?.length ?? 0), options.chunkSize / 2);
+    const units = naturalUnits(text, section.span, budget, measure);
+    return toChunks(text, packUnits(units, { ...options, chunkSize: budget }, measure), section.heading);
+  });
+};
+
+export const chunkingStrategies: Record<ChunkingStrategyName, Chunker> = {
+  fixed: fixedChunker,
+  sentence: sentenceChunker,
+  heading: headingChunker,
+  token: tokenChunker,
+};
+
+/**
+ * Splits text into chunks using the given strategy and sizes.
+ * @param text The document text.
+ * @param options The chunking strategy and sizes; defaults to sentence/paragraph-boundary chunking.
+ * @returns Non-empty chunks with their offsets in the source text.
+ */
+export const chunkText = (text: string, options: ChunkingOptions = DEFAULT_CHUNKING): TextChunk[] => {
+  const strategy = options.strategy ?? DEFAULT_CHUNKING.strategy!;
+  const chunker = typeof strategy === 'function' ? strategy : chunkingStrategies[strategy];
+  const defaults = DEFAULT_SIZES[typeof strategy === 'string' ? strategy : 'sentence'];
+  const chunkSize = options.chunkSize ?? defaults.chunkSize;
+  const overlap = Math.min(options.overlap ?? defaults.overlap, chunkSize - 1);
+
+  return chunker(text, { chunkSize, overlap }).filter(chunk => chunk.text.trim().length > 0);
+};
+
+/**
+ * Describes chunking options as a stable string for cache keys.
+ * Custom chunkers can't be described, so indexes built with them are not cached.
+ */
+export const getChunkingKey = (options: ChunkingOptions = DEFAULT_CHUNKING): string | null => {
+  const strategy = options.strategy ?? DEFAULT_CHUNKING.strategy!;
+  if (typeof strategy === 'function') return null;
+  const defaults = DEFAULT_SIZES[strategy];
+  return `${strategy}-${options.chunkSize ?? defaults.chunkSize}-${options.overlap ?? defaults.overlap}`;
+};
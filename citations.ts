@@ -0,0 +1,132 @@
+import { Source } from '../types';
+import { PageSpan } from './documentProcessor';
+import { VectorSearchResult } from './vectorStore';
+
+export interface DocumentCitation {
+  documentId: string;
+  documentName: string;
+  page?: number;
+  pageKind?: PageSpan['kind'];
+  /** Offsets of the cited passage within the document's extracted text. */
+  start?: number;
+  end?: number;
+}
+
+export type CitedSource = Source & { citation?: DocumentCitation };
+
+/** Retrieved passages labelled for the model, with the sources to show next to the answer. */
+export interface CitedContext {
+  contextString: string;
+  sources: CitedSource[];
+}
+
+export const CITATION_INSTRUCTION =
+  'When you use information from the provided context, cite where it came from using the label shown above each passage, for example (p. 42), (slide 3) or (Biology.pdf, p. 42).';
+
+/**
+ * Finds the page containing a character offset of the extracted text.
+ */
+export const findPage = (pages: PageSpan[], offset?: number): PageSpan | undefined => {
+  if (offset === undefined || pages.length === 0) return undefined;
+  let low = 0;
+  let high = pages.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (pages[mid].start <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return pages[low];
+};
+
+export const formatPageReference = (page?: number, kind: PageSpan['kind'] = 'page') => {
+  if (page === undefined) return '';
+  return kind === 'slide' ? `slide ${page}` : `p. ${page}`;
+};
+
+/**
+ * Builds the label placed above a context passage, which the model repeats back as its citation.
+ */
+export const formatCitationLabel = (citation: DocumentCitation, includeDocumentName: boolean): string => {
+  const parts = [
+    includeDocumentName ? citation.documentName : '',
+    formatPageReference(citation.page, citation.pageKind),
+  ].filter(Boolean);
+  return parts.length > 0 ? `(${parts.join(', ')})` : `(${citation.documentName})`;
+};
+
+/**
+ * Turns search results into a labelled context string for the model and matching cited sources.
+ * @param resolveDocument Looks up the display name and page layout of a result's document.
+ * @param includeDocumentName Whether labels name the document, for answers drawn from several documents.
+ */
+export const buildCitedContext = (
+  results: VectorSearchResult[],
+  resolveDocument: (documentId: string) => { name: string; pages: PageSpan[] },
+  includeDocumentName: boolean,
+  formatTitle: (result: VectorSearchResult, citation: DocumentCitation) => string
+): CitedContext => {
+  const cited = results.map(result => {
+    const { name, pages } = resolveDocument(result.documentId);
+    const page = findPage(pages, result.start);
+    const citation: DocumentCitation = {
+      documentId: result.documentId,
+      documentName: name,
+      page: page?.pageNumber,
+      pageKind: page?.kind,
+      start: result.start,
+      end: result.end,
+    };
+    return { result, citation };
+  });
+
+  return {
+    contextString: cited
+      .map(({ result, citation }) => `${formatCitationLabel(citation, includeDocumentName)}\n${result.chunk}`)
+      .join('\n\n'),
+    sources: cited.map(({ result, citation }) => ({
+      content: result.chunk,
+      type: 'document_chunk',
+      title: formatTitle(result, citation),
+      citation,
+    } as CitedSource)),
+  };
+};
+
+export type AnswerSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; text: string; citation: DocumentCitation };
+
+/**
+ * Splits an answer into plain text and "(p. 42)" or "(slide 3)" style references that match one of its cited sources,
+ * so the references can be rendered as links to the original page.
+ */
+export const splitPageReferences = (answer: string, citations: DocumentCitation[]): AnswerSegment[] => {
+  const segments: AnswerSegment[] = [];
+  const pattern = /\(([^()]*?),?\s*(p(?:age|\.)?|slide)\s*(\d+)\)/gi;
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(answer)) !== null) {
+    const documentName = match[1].trim().replace(/^["']|["']$/g, '');
+    const kind = match[2].toLowerCase() === 'slide' ? 'slide' : 'page';
+    const page = Number(match[3]);
+    const citation = citations.find(c =>
+      c.page === page && (c.pageKind ?? 'page') === kind && (!documentName || c.documentName.toLowerCase() === documentName.toLowerCase())
+    );
+    if (!citation) continue;
+
+    if (match.index > cursor) {
+      segments.push({ type: 'text', text: answer.slice(cursor, match.index) });
+    }
+    segments.push({ type: 'citation', text: match[0], citation });
+    cursor = match.index + match[0].length;
+  }
+
+  if (cursor < answer.length) {
+    segments.push({ type: 'text', text: answer.slice(cursor) });
+  }
+  return segments;
+};
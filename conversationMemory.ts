@@ -0,0 +1,143 @@
+import { ChatMessage } from '../types';
+import * as geminiService from '../services/geminiService';
+import { estimateTokens } from './chunking';
+
+export interface ConversationTurn {
+  /** Id of the chat message the turn came from. */
+  id: string;
+  role: 'student' | 'tutor';
+  text: string;
+}
+
+/** A running summary of the turns up to and including `throughId`, which no longer fit the token budget verbatim. */
+export interface ConversationSummary {
+  throughId: string;
+  text: string;
+}
+
+export interface ConversationMemory {
+  /** Prior conversation to place in front of the new question, or an empty string for a fresh conversation. */
+  prompt: string;
+  summary: ConversationSummary | null;
+}
+
+export const DEFAULT_MEMORY_TOKEN_BUDGET = 1500;
+
+// The share of the budget for recent turns quoted verbatim; the summary of older turns gets the rest.
+const RECENT_TURNS_SHARE = 0.75;
+
+const SUMMARY_INSTRUCTION =
+  'You condense tutoring conversations. Summarize the conversation in at most five sentences, keeping the topics covered, ' +
+  'facts and definitions the tutor gave, and anything the student is still unsure about. Reply with the summary only.';
+
+const REWRITE_INSTRUCTION =
+  'You rewrite follow-up questions for a document search engine. Using the conversation for context, rewrite the student\'s ' +
+  'latest message as a single standalone question that names its subject explicitly. If it is already standalone, repeat it unchanged. ' +
+  'Reply with the question only.';
+
+/**
+ * Picks the questions and answers out of a conversation; system notices, errors and quizzes carry no conversational context.
+ */
+export const toConversationTurns = (messages: ChatMessage[]): ConversationTurn[] =>
+  messages.flatMap((message): ConversationTurn[] => {
+    const content = message.content as any;
+    if (message.sender === 'user' && typeof content === 'string') {
+      return [{ id: message.id, role: 'student', text: content }];
+    }
+    if (message.sender !== 'ai') return [];
+    if (typeof content === 'string') {
+      return content.startsWith('Error:') ? [] : [{ id: message.id, role: 'tutor', text: content }];
+    }
+    if (typeof content?.answer === 'string') {
+      return [{ id: message.id, role: 'tutor', text: content.answer }];
+    }
+    if (content?.type === 'document_overview' && content.data?.summary) {
+      return [{ id: message.id, role: 'tutor', text: `Overview of "${content.data.fileName}": ${content.data.summary}` }];
+    }
+    return [];
+  });
+
+const formatTranscript = (turns: ConversationTurn[]) =>
+  turns.map(turn => `${turn.role === 'student' ? 'Student' : 'Tutor'}: ${turn.text}`).join('\n\n');
+
+/**
+ * Splits off the most recent turns that fit the token budget; the newest turn is always kept, shortened if needed.
+ */
+const splitRecentTurns = (turns: ConversationTurn[], tokenBudget: number) => {
+  let used = 0;
+  let index = turns.length;
+  while (index > 0) {
+    const tokens = estimateTokens(turns[index - 1].text);
+    if (used + tokens > tokenBudget && index < turns.length) break;
+    used += tokens;
+    index--;
+  }
+  const recent = turns.slice(index);
+  if (recent.length === 1 && used > tokenBudget) {
+    const keptShare = tokenBudget / used;
+    recent[0] = { ...recent[0], text: `...${recent[0].text.slice(-Math.floor(recent[0].text.length * keptShare))}` };
+  }
+  return { older: turns.slice(0, index), recent };
+};
+
+/**
+ * Builds the conversation context for a new question from the prior turns. Recent turns are quoted within the token
+ * budget and older ones are folded into a running summary, which is only extended when more turns fall out of the budget.
+ * @param previousSummary The summary returned by the previous call for the same conversation, if any.
+ */
+export const buildConversationMemory = async (
+  turns: ConversationTurn[],
+  previousSummary: ConversationSummary | null,
+  tokenBudget = DEFAULT_MEMORY_TOKEN_BUDGET
+): Promise<ConversationMemory> => {
+  if (turns.length === 0) return { prompt: '', summary: null };
+
+  const { older, recent } = splitRecentTurns(turns, Math.floor(tokenBudget * RECENT_TURNS_SHARE));
+  let summary: ConversationSummary | null = null;
+  if (older.length > 0) {
+    const summarizedCount = previousSummary ? older.findIndex(turn => turn.id === previousSummary.throughId) + 1 : 0;
+    if (previousSummary && summarizedCount === older.length) {
+      summary = previousSummary;
+    } else {
+      // Extend the previous summary when it still matches this conversation; otherwise start over.
+      const earlier = previousSummary && summarizedCount > 0 ? `Summary so far: ${previousSummary.text}\n\n` : '';
+      const text = await geminiService.getSummary(
+        { text: `${earlier}${formatTranscript(older.slice(summarizedCount))}` },
+        { systemInstruction: SUMMARY_INSTRUCTION }
+      );
+      summary = { throughId: older[older.length - 1].id, text: text.trim() };
+    }
+  }
+
+  const prompt = [
+    summary ? `Summary of the earlier conversation:\n${summary.text}` : '',
+    recent.length > 0 ? `Recent conversation:\n${formatTranscript(recent)}` : '',
+  ].filter(Boolean).join('\n\n');
+  return { prompt, summary };
+};
+
+/**
+ * Places the conversation in front of the student's new message, so follow-ups are answered in context.
+ */
+export const withConversation = (question: string, memory: ConversationMemory): string =>
+  memory.prompt
+    ? `${memory.prompt}\n\nThe student's new message, to answer in light of the conversation above:\n${question}`
+    : question;
+
+/**
+ * Rewrites a follow-up such as "can you explain the second point more?" into a question that can be searched for
+ * on its own. Falls back to the original question if the rewrite fails.
+ */
+export const rewriteAsStandaloneQuery = async (question: string, memory: ConversationMemory): Promise<string> => {
+  if (!memory.prompt) return question;
+  try {
+    const rewritten = await geminiService.getAnswer(
+      { text: `${memory.prompt}\n\nStudent's latest message: ${question}` },
+      { systemInstruction: REWRITE_INSTRUCTION }
+    );
+    return rewritten.trim() || question;
+  } catch (e) {
+    console.error("Failed to rewrite the follow-up question; searching for it as asked.", e);
+    return question;
+  }
+};
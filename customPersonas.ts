@@ -0,0 +1,89 @@
+import { loadPreference, savePreference } from './preferences';
+import { createRecordId } from './localDb';
+
+const CUSTOM_PERSONAS_PREFERENCE = 'custom-personas';
+const EXPORT_FORMAT = 'celestial-learning-hub/personas';
+
+/** Custom persona ids are prefixed so they can never collide with the built-in `Persona` values. */
+export type CustomPersonaId = `custom:${string}`;
+
+/** Names of the icons a custom persona can use; the components are mapped in personaConfig. */
+export type PersonaIconName = 'sparkles' | 'question' | 'explain' | 'user';
+
+export const PERSONA_ICON_NAMES: PersonaIconName[] = ['sparkles', 'question', 'explain', 'user'];
+
+export interface CustomPersona {
+  id: CustomPersonaId;
+  name: string;
+  description: string;
+  icon: PersonaIconName;
+  systemInstruction: string;
+}
+
+export const isCustomPersonaId = (id: string): id is CustomPersonaId => id.startsWith('custom:');
+
+export const createCustomPersonaId = (): CustomPersonaId => `custom:${createRecordId('persona')}`;
+
+export const listCustomPersonas = (): CustomPersona[] => loadPreference<CustomPersona[]>(CUSTOM_PERSONAS_PREFERENCE, []);
+
+export const saveCustomPersonas = (personas: CustomPersona[]) => savePreference(CUSTOM_PERSONAS_PREFERENCE, personas);
+
+/**
+ * Checks a persona read from storage or an import, returning a list of what is wrong with it.
+ */
+export const validateCustomPersona = (persona: Partial<CustomPersona>): string[] => {
+  const problems: string[] = [];
+  if (!persona.name?.trim()) problems.push('a name');
+  if (!persona.systemInstruction?.trim()) problems.push('a system instruction');
+  if (persona.icon && !PERSONA_ICON_NAMES.includes(persona.icon)) problems.push(`a known icon (not "${persona.icon}")`);
+  return problems;
+};
+
+export const exportCustomPersonas = (personas: CustomPersona[]) => ({
+  fileName: personas.length === 1
+    ? `${personas[0].name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'persona'}.json`
+    : 'personas.json',
+  mimeType: 'application/json',
+  text: JSON.stringify({ format: EXPORT_FORMAT, version: 1, personas }, null, 2),
+});
+
+/**
+ * Reads personas exported with exportCustomPersonas, or a bare persona or list of personas. Personas keep their id,
+ * so importing an updated copy replaces the earlier one instead of adding a duplicate.
+ */
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value !== null && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+
+const trimmedText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+export const importCustomPersonas = (text: string): CustomPersona[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const { personas } = asRecord(data);
+  const entries: unknown[] = Array.isArray(data) ? data : Array.isArray(personas) ? personas : [data];
+
+  return entries.map((value, index) => {
+    const entry = asRecord(value);
+    const persona: Partial<CustomPersona> = {
+      name: trimmedText(entry.name),
+      systemInstruction: trimmedText(entry.systemInstruction),
+      // Checked against the known icon names below.
+      icon: typeof entry.icon === 'string' ? (entry.icon as PersonaIconName) : undefined,
+    };
+    const problems = validateCustomPersona(persona);
+    if (problems.length > 0) {
+      throw new Error(`Persona ${index + 1} is missing ${problems.join(', ')}.`);
+    }
+    return {
+      id: typeof entry.id === 'string' && isCustomPersonaId(entry.id) ? entry.id : createCustomPersonaId(),
+      name: persona.name!,
+      description: trimmedText(entry.description),
+      icon: persona.icon ?? 'sparkles',
+      systemInstruction: persona.systemInstruction!,
+    };
+  });
+};
@@ -0,0 +1,205 @@
+import { ZipArchive } from './zipArchive';
+import type { DocumentExtractor, ExtractedDocument, PageSpan } from './documentProcessor';
+
+/**
+ * Collects text blocks into a single document, recording where each page or slide begins and ends.
+ * Headings are emitted as Markdown so heading-aware chunking keeps them attached to their sections.
+ */
+class DocumentTextBuilder {
+  private text = '';
+  private pages: PageSpan[] = [];
+
+  addBlock(block: string) {
+    const trimmed = block.trim();
+    if (!trimmed) return;
+    if (this.text) this.text += '\n\n';
+    this.text += trimmed;
+  }
+
+  addHeading(title: string, level: number) {
+    this.addBlock(`${'#'.repeat(Math.min(Math.max(level, 1), 6))} ${title.trim()}`);
+  }
+
+  addPage(pageNumber: number, kind: PageSpan['kind'], addContent: () => void) {
+    // The page starts after the separator that addBlock inserts before its first block.
+    const start = this.text ? this.text.length + 2 : 0;
+    addContent();
+    this.pages.push({ pageNumber, start, end: this.text.length, kind });
+  }
+
+  build(): ExtractedDocument {
+    return { text: this.text, pages: this.pages, suggestedChunking: { strategy: 'heading' } };
+  }
+}
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+const elements = (root: Element | Document, qualifiedName: string) => Array.from(root.getElementsByTagName(qualifiedName));
+
+const docxParagraphText = (paragraph: Element) =>
+  elements(paragraph, '*')
+    .map(node => {
+      if (node.tagName === 'w:t') return node.textContent || '';
+      if (node.tagName === 'w:tab') return '\t';
+      if (node.tagName === 'w:br' || node.tagName === 'w:cr') return '\n';
+      return '';
+    })
+    .join('');
+
+const docxHeadingLevel = (paragraph: Element): number | null => {
+  const style = elements(paragraph, 'w:pStyle')[0]?.getAttribute('w:val') || '';
+  if (/^title$/i.test(style)) return 1;
+  const match = style.match(/^heading\s?(\d)$/i);
+  if (match) return Number(match[1]);
+  // Outline levels 0-8 are heading levels 1-9; 9 marks body text.
+  const outlineLevel = Number(elements(paragraph, 'w:outlineLvl')[0]?.getAttribute('w:val') ?? NaN);
+  return Number.isInteger(outlineLevel) && outlineLevel >= 0 && outlineLevel <= 8 ? outlineLevel + 1 : null;
+};
+
+const extractDocx = async (file: File): Promise<ExtractedDocument> => {
+  const archive = await ZipArchive.fromBlob(file);
+  const xml = await archive.readText('word/document.xml');
+  if (!xml) throw new Error('The Word document has no body content.');
+
+  const builder = new DocumentTextBuilder();
+  elements(parseXml(xml), 'w:p').forEach(paragraph => {
+    const text = docxParagraphText(paragraph);
+    const level = docxHeadingLevel(paragraph);
+    if (level && text.trim()) {
+      builder.addHeading(text, level);
+    } else {
+      builder.addBlock(text);
+    }
+  });
+  return builder.build();
+};
+
+const slideNumber = (name: string) => Number(name.match(/slide(\d+)\.xml$/)?.[1] ?? 0);
+
+/**
+ * The slide files in deck order. Slide file names keep their original numbers when slides are moved or inserted,
+ * so the order comes from the presentation's slide list, whose entries point at the files through relationships.
+ */
+const pptxSlideNames = async (archive: ZipArchive): Promise<string[]> => {
+  const slideFiles = archive.fileNames.filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name));
+  const [presentation, relationships] = await Promise.all([
+    archive.readText('ppt/presentation.xml'),
+    archive.readText('ppt/_rels/presentation.xml.rels'),
+  ]);
+  if (presentation && relationships) {
+    const targets = new Map(elements(parseXml(relationships), 'Relationship').map(relationship => {
+      const target = relationship.getAttribute('Target') || '';
+      // Targets are relative to the ppt folder unless they start from the package root.
+      return [relationship.getAttribute('Id'), target.startsWith('/') ? target.slice(1) : `ppt/${target}`] as const;
+    }));
+    const ordered = elements(parseXml(presentation), 'p:sldId')
+      .map(slide => targets.get(slide.getAttribute('r:id')))
+      .filter((name): name is string => !!name && slideFiles.includes(name));
+    if (ordered.length > 0) return ordered;
+  }
+  return slideFiles.sort((a, b) => slideNumber(a) - slideNumber(b));
+};
+
+const extractPptx = async (file: File): Promise<ExtractedDocument> => {
+  const archive = await ZipArchive.fromBlob(file);
+  const slideNames = await pptxSlideNames(archive);
+  if (slideNames.length === 0) throw new Error('The presentation has no slides.');
+
+  const builder = new DocumentTextBuilder();
+  for (const [index, name] of slideNames.entries()) {
+    const xml = await archive.readText(name);
+    if (!xml) continue;
+
+    let title = '';
+    const body: string[] = [];
+    elements(parseXml(xml), 'p:sp').forEach(shape => {
+      const placeholderType = elements(shape, 'p:ph')[0]?.getAttribute('type');
+      const paragraphs = elements(shape, 'a:p')
+        .map(paragraph => elements(paragraph, 'a:t').map(run => run.textContent || '').join(''))
+        .filter(text => text.trim());
+      if ((placeholderType === 'title' || placeholderType === 'ctrTitle') && !title) {
+        title = paragraphs.join(' ');
+      } else {
+        body.push(...paragraphs);
+      }
+    });
+
+    const slide = index + 1;
+    builder.addPage(slide, 'slide', () => {
+      builder.addHeading(title ? `Slide ${slide}: ${title}` : `Slide ${slide}`, 2);
+      builder.addBlock(body.join('\n'));
+    });
+  }
+  return builder.build();
+};
+
+const HTML_BLOCKS = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, td, th, dt, dd, figcaption';
+
+const extractHtml = async (file: File): Promise<ExtractedDocument> => {
+  const document = new DOMParser().parseFromString(await file.text(), 'text/html');
+  document.querySelectorAll('script, style, noscript, nav, template').forEach(node => node.remove());
+
+  const builder = new DocumentTextBuilder();
+  const blocks = Array.from(document.body.querySelectorAll(HTML_BLOCKS))
+    // Nested blocks (a <p> inside an <li>) are covered by their outermost block.
+    .filter(element => !element.parentElement?.closest(HTML_BLOCKS));
+
+  if (blocks.length === 0) {
+    builder.addBlock(document.body.textContent || '');
+  }
+  blocks.forEach(element => {
+    const text = (element.textContent || '').replace(/[ \t]+/g, ' ');
+    const heading = element.tagName.match(/^H(\d)$/);
+    if (heading) {
+      builder.addHeading(text, Number(heading[1]));
+    } else {
+      builder.addBlock(text);
+    }
+  });
+  return builder.build();
+};
+
+const extractPlainText = async (file: File): Promise<ExtractedDocument> => ({ text: await file.text(), pages: [] });
+
+// Markdown already marks headings with "#", which heading-aware chunking understands as-is.
+const extractMarkdown = async (file: File): Promise<ExtractedDocument> => ({
+  text: await file.text(),
+  pages: [],
+  suggestedChunking: { strategy: 'heading' },
+});
+
+export const structuredExtractors: DocumentExtractor[] = [
+  {
+    id: 'docx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['docx'],
+    requiresDom: true,
+    extract: extractDocx,
+  },
+  {
+    id: 'pptx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    extensions: ['pptx'],
+    requiresDom: true,
+    extract: extractPptx,
+  },
+  {
+    id: 'html',
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extensions: ['html', 'htm', 'xhtml'],
+    requiresDom: true,
+    extract: extractHtml,
+  },
+  {
+    id: 'markdown',
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    extensions: ['md', 'markdown'],
+    extract: extractMarkdown,
+  },
+  {
+    id: 'text',
+    mimeTypes: ['text/plain'],
+    extensions: ['txt', 'text'],
+    extract: extractPlainText,
+  },
+];
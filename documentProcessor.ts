@@ -1,52 +1,213 @@
 import { GeminiInput } from '../types';
 import * as geminiService from '../services/geminiService';
-import * as pdfjsLib from "https://mozilla.github.io/pdf.js/build/pdf.mjs";
+import * as pdfjsLib from "pdfjs-dist";
+import { structuredExtractors } from './documentExtractors';
+import { ChunkingOptions } from './chunking';
+import { throwIfAborted } from './retry';
+
+export interface PageSpan {
+  pageNumber: number;
+  /** Offsets of the page's text within the extracted document text. */
+  start: number;
+  end: number;
+  /** Defaults to 'page'; presentations report slides. */
+  kind?: 'page' | 'slide';
+  /** How the page's text was obtained: read from the PDF text layer, or transcribed from a render of the page. */
+  method?: 'text' | 'ocr';
+}
+
+export interface ExtractedDocument {
+  text: string;
+  /** Empty for formats without pagination, such as Markdown or plain text. */
+  pages: PageSpan[];
+  /** Chunking that suits the extracted structure, used when the caller doesn't choose one. */
+  suggestedChunking?: ChunkingOptions;
+}
+
+export interface ExtractionOptions {
+  onProgress?: (progress: { stage: string; percentage: number }) => void;
+  signal?: AbortSignal;
+}
+
+export interface DocumentExtractor {
+  id: string;
+  /** MIME types handled by this extractor; a trailing "/*" matches a whole family, e.g. "image/*". */
+  mimeTypes: string[];
+  /** Lowercase file extensions without the dot, used when the browser reports no or a generic MIME type. */
+  extensions: string[];
+  /** Extractors that parse markup with DOMParser can't run in the ingestion worker and stay on the main thread. */
+  requiresDom?: boolean;
+  extract: (file: File, options?: ExtractionOptions) => Promise<ExtractedDocument>;
+}
+
+const extractors: DocumentExtractor[] = [];
+
+/**
+ * Registers an extractor. Extractors registered later take precedence over earlier ones,
+ * so built-in formats can be overridden.
+ */
+export const registerExtractor = (extractor: DocumentExtractor) => {
+  const existing = extractors.findIndex(e => e.id === extractor.id);
+  if (existing >= 0) extractors.splice(existing, 1);
+  extractors.unshift(extractor);
+};
+
+const fileExtension = (fileName: string) => fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? '';
+
+const matchesMimeType = (pattern: string, mimeType: string) =>
+  pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : pattern === mimeType;
+
+export const findExtractor = (file: File): DocumentExtractor | undefined => {
+  const extension = fileExtension(file.name);
+  return extractors.find(e => file.type && e.mimeTypes.some(pattern => matchesMimeType(pattern, file.type)))
+    ?? extractors.find(e => e.extensions.includes(extension));
+};
+
+/**
+ * Lists every registered MIME type and extension, for use as a file input's `accept` attribute.
+ */
+export const getAcceptedFileTypes = (): string =>
+  Array.from(new Set(extractors.flatMap(e => [...e.mimeTypes, ...e.extensions.map(ext => `.${ext}`)]))).join(',');
 
 /**
- * Extracts text from a given file (PDF or Image).
+ * Extracts text from a given file using the extractor registered for its type.
  * @param file The file to process.
- * @returns A promise that resolves to the extracted text content.
+ * @param options Progress reporting; PDFs report the extraction method used for each page.
+ * @returns A promise that resolves to the extracted text content and where each page sits within it.
  */
-export const processFile = async (file: File): Promise<string> => {
-  if (file.type === 'application/pdf') {
-    return processPdf(file);
-  } else if (file.type.startsWith('image/')) {
-    return processImage(file);
-  } else {
-    throw new Error('Unsupported file type. Please upload a PDF or an image.');
+export const processFile = async (file: File, options: ExtractionOptions = {}): Promise<ExtractedDocument> => {
+  const extractor = findExtractor(file);
+  if (!extractor) {
+    const supported = Array.from(new Set(extractors.flatMap(e => e.extensions))).map(ext => ext.toUpperCase());
+    throw new Error(`Unsupported file type. Please upload one of: ${supported.join(', ')}.`);
   }
+  throwIfAborted(options.signal);
+  const extracted = await extractor.extract(file, options);
+  throwIfAborted(options.signal);
+  return extracted;
 };
 
-const processPdf = async (file: File): Promise<string> => {
-  // The pdf.js library is now imported as an ES module, ensuring it's loaded correctly.
-  (pdfjsLib as any).GlobalWorkerOptions.workerSrc = `https://mozilla.github.io/pdf.js/build/pdf.worker.mjs`;
+// pdf.js creates scratch canvases while rendering; inside a worker there is no document, so they must be offscreen.
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
 
+  reset(target: { canvas: OffscreenCanvas }, width: number, height: number) {
+    target.canvas.width = width;
+    target.canvas.height = height;
+  }
+
+  destroy(target: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (target.canvas) target.canvas.width = target.canvas.height = 0;
+    target.canvas = null;
+    target.context = null;
+  }
+}
+
+/**
+ * Opens a PDF with pdf.js, for extraction or for rendering individual pages.
+ */
+export const loadPdfDocument = async (data: ArrayBuffer): Promise<any> => {
+  // The pdf.js worker is bundled with the app, so PDFs open offline and without a third-party request. Vite and
+  // webpack 5 (Next.js) both emit the file referenced by `new URL(..., import.meta.url)` as an asset.
+  (pdfjsLib as any).GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  return (pdfjsLib as any).getDocument({
+    data,
+    ...(typeof document === 'undefined' ? { CanvasFactory: OffscreenCanvasFactory } : {}),
+  }).promise;
+};
+
+/**
+ * Joins a page's text items the same way extraction does, so offsets can be mapped back to items.
+ */
+export const joinPageText = (items: { str: string }[]): string => items.map(item => item.str).join(' ');
+
+export const pdfTransform = (viewportTransform: number[], itemTransform: number[]): number[] =>
+  (pdfjsLib as any).Util.transform(viewportTransform, itemTransform);
+
+// Pages with fewer meaningful characters than this in their text layer are treated as scanned.
+const MIN_TEXT_LAYER_CHARS = 25;
+const OCR_RENDER_SCALE = 2;
+
+const readAsBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = error => reject(error);
+  reader.readAsDataURL(blob);
+});
+
+const renderPageToImage = async (page: any): Promise<NonNullable<GeminiInput['image']>> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  // OffscreenCanvas works both on the main thread and in the ingestion worker.
+  const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+  const data = await readAsBase64(await canvas.convertToBlob({ type: 'image/png' }));
+  canvas.width = canvas.height = 0;
+  return { data, mimeType: 'image/png' };
+};
+
+const processPdf = async (file: File, { onProgress, signal }: ExtractionOptions = {}): Promise<ExtractedDocument> => {
   const arrayBuffer = await file.arrayBuffer();
-  const pdf = await (pdfjsLib as any).getDocument({ data: arrayBuffer }).promise;
+  const pdf = await loadPdfDocument(arrayBuffer);
   let allText = '';
+  const pages: PageSpan[] = [];
 
   for (let i = 1; i <= pdf.numPages; i++) {
+    throwIfAborted(signal);
     const page = await pdf.getPage(i);
     const textContent = await page.getTextContent();
-    const pageText = textContent.items.map((item: any) => item.str).join(' ');
+    let pageText = joinPageText(textContent.items);
+    let method: PageSpan['method'] = 'text';
+
+    // Scanned handouts have an empty or near-empty text layer, so read the rendered page instead.
+    if (pageText.replace(/\s/g, '').length < MIN_TEXT_LAYER_CHARS) {
+      onProgress?.({
+        stage: `Page ${i}/${pdf.numPages}: no text layer, running OCR...`,
+        percentage: Math.round(((i - 1) / pdf.numPages) * 100),
+      });
+      try {
+        const transcription = await geminiService.transcribeImage(await renderPageToImage(page));
+        if (transcription.trim()) {
+          pageText = transcription;
+          method = 'ocr';
+        }
+      } catch (e) {
+        console.error(`OCR failed for page ${i}; keeping its text layer.`, e);
+      }
+    }
+
+    pages.push({ pageNumber: i, start: allText.length, end: allText.length + pageText.length, method });
     allText += pageText + '\n\n';
+    onProgress?.({
+      stage: `Page ${i}/${pdf.numPages}: ${method === 'ocr' ? 'transcribed with OCR' : 'read from text layer'}`,
+      percentage: Math.round((i / pdf.numPages) * 100),
+    });
   }
 
-  return allText;
+  const ocrPageCount = pages.filter(p => p.method === 'ocr').length;
+  if (ocrPageCount > 0) {
+    onProgress?.({ stage: `Extracted ${pages.length} pages (${ocrPageCount} with OCR).`, percentage: 100 });
+  }
+
+  return { text: allText, pages };
 };
 
-const processImage = async (file: File): Promise<string> => {
-  const base64Data = await new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve((reader.result as string).split(',')[1]);
-    reader.onerror = error => reject(error);
-    reader.readAsDataURL(file);
-  });
+const processImage = async (file: File): Promise<ExtractedDocument> => {
+  const base64Data = await readAsBase64(file);
   
   const imageInput: GeminiInput['image'] = {
       data: base64Data,
       mimeType: file.type
   };
   
-  return geminiService.transcribeImage(imageInput);
-};
\ No newline at end of file
+  const text = await geminiService.transcribeImage(imageInput);
+  return { text, pages: [{ pageNumber: 1, start: 0, end: text.length }] };
+};
+
+[
+  ...structuredExtractors,
+  { id: 'image', mimeTypes: ['image/*'], extensions: ['png', 'jpg', 'jpeg', 'webp', 'gif'], extract: processImage },
+  { id: 'pdf', mimeTypes: ['application/pdf'], extensions: ['pdf'], extract: processPdf },
+].forEach(registerExtractor);
@@ -0,0 +1,85 @@
+import * as geminiService from '../services/geminiService';
+import { tokenize } from './bm25';
+
+export type EmbeddingFunction = (text: string) => Promise<number[]>;
+
+export interface EmbeddingProvider {
+  id: string;
+  name: string;
+  description: string;
+  /** Whether embeddings are computed on this device, without sending text to a cloud API. */
+  isLocal: boolean;
+  embed: EmbeddingFunction;
+}
+
+/** Identifies what built an index, so vectors from different models are never compared. */
+export interface EmbeddingModelInfo {
+  providerId: string;
+  dimensions: number;
+}
+
+const HASHING_DIMENSIONS = 512;
+
+// 32-bit FNV-1a; fast and stable across sessions and machines.
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Embeds text with the hashing trick: unigrams and bigrams are hashed into a fixed number of
+ * signed buckets, weighted by log term frequency and L2-normalized. Deterministic, offline and
+ * instant, at the cost of only capturing lexical (not semantic) similarity.
+ */
+export const hashingEmbed = async (text: string): Promise<number[]> => {
+  const vector = new Array<number>(HASHING_DIMENSIONS).fill(0);
+  const terms = tokenize(text);
+  const features = [...terms, ...terms.slice(1).map((term, i) => `${terms[i]} ${term}`)];
+
+  const counts = new Map<string, number>();
+  features.forEach(feature => counts.set(feature, (counts.get(feature) || 0) + 1));
+  counts.forEach((count, feature) => {
+    const hash = fnv1a(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % HASHING_DIMENSIONS] += sign * (1 + Math.log(count));
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+};
+
+const providers = new Map<string, EmbeddingProvider>();
+
+export const registerEmbeddingProvider = (provider: EmbeddingProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getEmbeddingProviders = (): EmbeddingProvider[] => Array.from(providers.values());
+
+export const getEmbeddingProvider = (id: string): EmbeddingProvider => {
+  const provider = providers.get(id);
+  if (!provider) throw new Error(`Unknown embedding provider "${id}".`);
+  return provider;
+};
+
+export const DEFAULT_EMBEDDING_PROVIDER_ID = 'gemini';
+
+registerEmbeddingProvider({
+  id: 'gemini',
+  name: 'Gemini (cloud)',
+  description: 'Highest quality semantic search. Sends document text to the Gemini API.',
+  isLocal: false,
+  embed: geminiService.embedContent,
+});
+
+registerEmbeddingProvider({
+  id: 'local-hashing',
+  name: 'Local (offline)',
+  description: 'Runs entirely in the browser. Works offline and keeps documents on this device.',
+  isLocal: true,
+  embed: hashingEmbed,
+});
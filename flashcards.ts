@@ -0,0 +1,175 @@
+import { Type } from '@google/genai';
+import { STORES, getAllRecords, putRecord, deleteRecord, createRecordId } from './localDb';
+import { GEMINI_MODEL, getGeminiClient } from './geminiClient';
+
+export interface FlashcardDeck {
+  id: string;
+  name: string;
+  /** The document or answer the cards were generated from. */
+  sourceName: string;
+  createdAt: number;
+}
+
+export interface Flashcard {
+  id: string;
+  deckId: string;
+  front: string;
+  back: string;
+  /** SM-2 easiness factor; starts at 2.5 and never drops below 1.3. */
+  ease: number;
+  /** Days until the next review after the last successful one. */
+  interval: number;
+  /** Successful reviews in a row; a lapse resets it to 0. */
+  repetitions: number;
+  dueAt: number;
+  lastReviewedAt?: number;
+}
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 grades answers from 0 to 5; anything below 3 counts as forgotten.
+const RATING_QUALITY: Record<ReviewRating, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_FLASHCARD_COUNT = 15;
+const MAX_SOURCE_CHARACTERS = 30000;
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const endOfDay = (time: number) => startOfDay(time) + DAY_MS - 1;
+
+/**
+ * Schedules a card's next review with the SM-2 algorithm: a lapse restarts it at one day, successful reviews
+ * go to 1 day, then 6 days, then grow by the card's ease, which itself moves with how easy the answer was.
+ */
+export const scheduleReview = (card: Flashcard, rating: ReviewRating, now = Date.now()): Flashcard => {
+  const quality = RATING_QUALITY[rating];
+  const ease = Math.max(MIN_EASE, card.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  let repetitions: number;
+  let interval: number;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = card.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * ease);
+  }
+  return { ...card, ease, interval, repetitions, dueAt: startOfDay(now) + interval * DAY_MS, lastReviewedAt: now };
+};
+
+/**
+ * Today's review queue: every card due by the end of the day, most overdue first.
+ */
+export const getDueCards = (cards: Flashcard[], now = Date.now()): Flashcard[] =>
+  cards.filter(card => card.dueAt <= endOfDay(now)).sort((a, b) => a.dueAt - b.dueAt);
+
+export const createFlashcard = (deckId: string, front: string, back: string, now = Date.now()): Flashcard => ({
+  id: createRecordId('card'),
+  deckId,
+  front: front.trim(),
+  back: back.trim(),
+  ease: INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  dueAt: now,
+});
+
+export const listFlashcardDecks = async (): Promise<FlashcardDeck[]> => {
+  const decks = await getAllRecords<FlashcardDeck>(STORES.flashcardDecks);
+  return decks.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const listFlashcards = async (): Promise<Flashcard[]> => getAllRecords<Flashcard>(STORES.flashcards);
+
+export const saveFlashcardDeck = async (deck: FlashcardDeck, cards: Flashcard[]): Promise<void> => {
+  await putRecord(STORES.flashcardDecks, deck);
+  for (const card of cards) {
+    await putRecord(STORES.flashcards, card);
+  }
+};
+
+export const saveFlashcard = async (card: Flashcard): Promise<void> => {
+  await putRecord(STORES.flashcards, card);
+};
+
+export const deleteFlashcardDeck = async (deckId: string, cards: Flashcard[]): Promise<void> => {
+  for (const card of cards.filter(c => c.deckId === deckId)) {
+    await deleteRecord(STORES.flashcards, card.id);
+  }
+  await deleteRecord(STORES.flashcardDecks, deckId);
+};
+
+const flashcardSchema = {
+  type: Type.OBJECT,
+  properties: {
+    cards: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          front: { type: Type.STRING },
+          back: { type: Type.STRING },
+        },
+        required: ['front', 'back'],
+      },
+    },
+  },
+  required: ['cards'],
+};
+
+const isGeneratedCard = (card: unknown): card is { front: string; back: string } => {
+  const { front, back } = (card ?? {}) as Record<string, unknown>;
+  return typeof front === 'string' && !!front.trim() && typeof back === 'string' && !!back.trim();
+};
+
+/**
+ * Asks the model for question-and-answer cards covering the key facts of the text.
+ */
+export const generateFlashcards = async (text: string, count = DEFAULT_FLASHCARD_COUNT): Promise<{ front: string; back: string }[]> => {
+  const response = await getGeminiClient().models.generateContent({
+    model: GEMINI_MODEL,
+    contents:
+      `Create up to ${count} flashcards covering the most important facts, definitions and ideas in the study material below. ` +
+      'Each front is a short question or term; each back is a concise answer of at most two sentences. Avoid duplicates.\n\n' +
+      `Study material:\n${text.slice(0, MAX_SOURCE_CHARACTERS)}`,
+    config: { responseMimeType: 'application/json', responseSchema: flashcardSchema },
+  });
+
+  const data = JSON.parse(response.text ?? '{}');
+  const cards: { front: string; back: string }[] = Array.isArray(data.cards) ? data.cards.filter(isGeneratedCard) : [];
+  if (cards.length === 0) throw new Error('No flashcards could be generated from this material.');
+  return cards;
+};
+
+export type FlashcardExportFormat = 'csv' | 'tsv';
+
+const toCsvField = (text: string) => (/[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+// Anki's TSV import has no quoting, so tabs become spaces and line breaks become HTML breaks.
+const toTsvField = (text: string) => text.replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+
+/**
+ * Exports a deck as a file Anki can import (File > Import), with front and back fields and the deck name as a tag.
+ * The header lines tell Anki the separator and which column holds the tags.
+ */
+export const exportFlashcardDeck = (deck: FlashcardDeck, cards: Flashcard[], format: FlashcardExportFormat) => {
+  const tag = deck.name.trim().replace(/\s+/g, '_');
+  const deckCards = cards.filter(card => card.deckId === deck.id);
+  const rows = format === 'csv'
+    ? deckCards.map(card => [card.front, card.back, tag].map(toCsvField).join(','))
+    : deckCards.map(card => [card.front, card.back, tag].map(toTsvField).join('\t'));
+  const header = [`#separator:${format === 'csv' ? 'Comma' : 'Tab'}`, `#html:${format === 'tsv'}`, '#tags column:3'];
+  return {
+    fileName: `${deck.name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'flashcards'}.${format}`,
+    mimeType: format === 'csv' ? 'text/csv' : 'text/tab-separated-values',
+    text: [...header, ...rows].join('\n') + '\n',
+  };
+};
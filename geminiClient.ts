@@ -0,0 +1,17 @@
+import { GoogleGenAI } from '@google/genai';
+
+const API_KEY = process.env.API_KEY;
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+let client: GoogleGenAI | null = null;
+
+/**
+ * The shared client for features that need more control than the geminiService helpers offer,
+ * such as streaming or response schemas.
+ */
+export const getGeminiClient = (): GoogleGenAI => {
+  if (!API_KEY) throw new Error("API_KEY environment variable not set");
+  client ??= new GoogleGenAI({ apiKey: API_KEY });
+  return client;
+};
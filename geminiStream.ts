@@ -0,0 +1,49 @@
+import { GeminiInput } from '../types';
+import { GEMINI_MODEL, getGeminiClient } from './geminiClient';
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  /** Called with all the text generated so far, each time more arrives. */
+  onText: (text: string) => void;
+}
+
+export type GeminiStreamFunction = (input: GeminiInput, options: StreamOptions) => Promise<string>;
+
+type StreamConfig = { systemInstruction?: string } | undefined;
+
+const toContents = (input: GeminiInput) => input.image
+  ? { parts: [{ inlineData: { data: input.image.data, mimeType: input.image.mimeType } }, { text: input.text || '' }] }
+  : input.text || '';
+
+/**
+ * Streams a response, reporting the text as it grows. Aborting stops generation and resolves with
+ * whatever was generated up to that point, so partial answers can be kept.
+ */
+const streamContent = async (contents: ReturnType<typeof toContents>, config: StreamConfig, { signal, onText }: StreamOptions): Promise<string> => {
+  let text = '';
+  try {
+    const stream = await getGeminiClient().models.generateContentStream({
+      model: GEMINI_MODEL,
+      contents,
+      config: { ...config, abortSignal: signal },
+    });
+    for await (const chunk of stream) {
+      if (signal?.aborted) break;
+      text += chunk.text ?? '';
+      onText(text);
+    }
+  } catch (e) {
+    if (!signal?.aborted) throw e;
+  }
+  return text;
+};
+
+export const streamAnswer = (input: GeminiInput, config: StreamConfig, options: StreamOptions): Promise<string> =>
+  streamContent(toContents(input), config, options);
+
+export const streamAnswerFromContext = (question: string, context: string, config: StreamConfig, options: StreamOptions): Promise<string> =>
+  streamContent(
+    `Answer the question using only the context below. If the context doesn't contain the answer, say so.\n\nContext:\n${context}\n\nQuestion: ${question}`,
+    config,
+    options
+  );
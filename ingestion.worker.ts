@@ -0,0 +1,74 @@
+import { processFile } from './documentProcessor';
+import { VectorStore } from './vectorStore';
+import { getEmbeddingProvider } from './embeddingProviders';
+import { IngestionRequest, IngestionResponse } from './ingestionProtocol';
+
+// Each store is addressed by an id chosen by the main thread, e.g. the Knowledge Base or the Q&A document.
+const stores = new Map<string, VectorStore>();
+const inFlight = new Map<number, AbortController>();
+
+const post = (response: IngestionResponse) => self.postMessage(response);
+
+const getStore = (storeId: string) => {
+  let store = stores.get(storeId);
+  if (!store) {
+    store = new VectorStore();
+    stores.set(storeId, store);
+  }
+  return store;
+};
+
+const handleRequest = async (request: Exclude<IngestionRequest, { type: 'cancel' }>, signal: AbortSignal) => {
+  const { requestId } = request;
+  const onProgress = (progress: { stage: string; percentage: number }) => post({ type: 'progress', requestId, progress });
+
+  switch (request.type) {
+    case 'extract':
+      return processFile(request.file, { onProgress, signal });
+    case 'index': {
+      const documentStore = new VectorStore();
+      await documentStore.addDocument(request.requestId.toString(), request.text, getEmbeddingProvider(request.providerId), {
+        onProgress,
+        chunking: request.chunking,
+        signal,
+        resumeFrom: request.resumeFrom,
+        retries: request.retries,
+        onBatchComplete: (entries, firstIndex) => post({ type: 'batch', requestId, entries, firstIndex }),
+      });
+      return documentStore.serializeDocument(request.requestId.toString());
+    }
+    case 'import':
+      getStore(request.storeId).importDocument(request.documentId, request.data);
+      return;
+    case 'remove':
+      getStore(request.storeId).removeDocument(request.documentId);
+      return;
+    case 'dispose':
+      stores.delete(request.storeId);
+      return;
+    case 'search':
+      return getStore(request.storeId).search(request.query, getEmbeddingProvider(request.providerId), request.options);
+  }
+};
+
+self.onmessage = async (event: MessageEvent<IngestionRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    inFlight.get(request.requestId)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  inFlight.set(request.requestId, controller);
+  try {
+    const result = await handleRequest(request, controller.signal);
+    post({ type: 'result', requestId: request.requestId, result });
+  } catch (e) {
+    const error = e instanceof Error || e instanceof DOMException
+      ? { name: e.name, message: e.message }
+      : { name: 'Error', message: String(e) };
+    post({ type: 'error', requestId: request.requestId, error });
+  } finally {
+    inFlight.delete(request.requestId);
+  }
+};
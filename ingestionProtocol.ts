@@ -0,0 +1,50 @@
+import type { ExtractedDocument } from './documentProcessor';
+import type { ChunkingStrategyName } from './chunking';
+import type { SearchOptions, SerializedVectorEntry, SerializedVectorStore, VectorSearchResult } from './vectorStore';
+
+export interface IngestionProgress {
+  stage: string;
+  percentage: number;
+}
+
+/** Chunking options that can be posted to the worker; custom chunker functions can't be cloned. */
+export interface WorkerChunkingOptions {
+  strategy?: ChunkingStrategyName;
+  chunkSize?: number;
+  overlap?: number;
+}
+
+/** Messages posted from the main thread to the ingestion worker. Every request except `cancel` gets exactly one `result` or `error`. */
+export type IngestionRequest =
+  | { type: 'extract'; requestId: number; file: File }
+  | {
+      type: 'index';
+      requestId: number;
+      text: string;
+      providerId: string;
+      chunking?: WorkerChunkingOptions;
+      resumeFrom?: SerializedVectorEntry[];
+      retries?: number;
+    }
+  | { type: 'import'; requestId: number; storeId: string; documentId: string; data: SerializedVectorStore }
+  | { type: 'remove'; requestId: number; storeId: string; documentId: string }
+  | { type: 'dispose'; requestId: number; storeId: string }
+  | { type: 'search'; requestId: number; storeId: string; query: string; providerId: string; options?: SearchOptions }
+  | { type: 'cancel'; requestId: number };
+
+export interface IngestionResults {
+  extract: ExtractedDocument;
+  index: SerializedVectorStore;
+  import: void;
+  remove: void;
+  dispose: void;
+  search: VectorSearchResult[];
+}
+
+/** Messages posted from the ingestion worker back to the main thread. */
+export type IngestionResponse =
+  | { type: 'progress'; requestId: number; progress: IngestionProgress }
+  /** Entries embedded since the previous `batch` message of the same request, starting at chunk `firstIndex`. */
+  | { type: 'batch'; requestId: number; entries: SerializedVectorEntry[]; firstIndex: number }
+  | { type: 'result'; requestId: number; result: IngestionResults[keyof IngestionResults] }
+  | { type: 'error'; requestId: number; error: { name: string; message: string } };
@@ -0,0 +1,192 @@
+import { ExtractedDocument, ExtractionOptions, findExtractor, processFile } from './documentProcessor';
+import { VectorStore, IngestionOptions, SearchOptions, SerializedVectorEntry, SerializedVectorStore, VectorSearchResult } from './vectorStore';
+import { EmbeddingProvider, EmbeddingModelInfo } from './embeddingProviders';
+import { createAbortError } from './retry';
+import { IngestionProgress, IngestionRequest, IngestionResponse, IngestionResults } from './ingestionProtocol';
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: IngestionProgress) => void;
+  onBatch?: (entries: SerializedVectorEntry[], firstIndex: number) => void;
+}
+
+type RequestMessage<K extends keyof IngestionResults> = Omit<Extract<IngestionRequest, { type: K }>, 'requestId'>;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+const handleResponse = (response: IngestionResponse) => {
+  const request = pending.get(response.requestId);
+  if (!request) return;
+
+  switch (response.type) {
+    case 'progress':
+      request.onProgress?.(response.progress);
+      break;
+    case 'batch':
+      request.onBatch?.(response.entries, response.firstIndex);
+      break;
+    case 'result':
+      pending.delete(response.requestId);
+      request.resolve(response.result);
+      break;
+    case 'error':
+      pending.delete(response.requestId);
+      request.reject(response.error.name === 'AbortError' ? createAbortError() : new Error(response.error.message));
+      break;
+  }
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./ingestion.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<IngestionResponse>) => handleResponse(event.data);
+    worker.onerror = (event) => {
+      console.error("The document processing worker failed.", event);
+      const error = new Error(event.message || 'The document processing worker stopped unexpectedly.');
+      pending.forEach(request => request.reject(error));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const request = <K extends keyof IngestionResults>(
+  message: RequestMessage<K>,
+  { signal, onProgress, onBatch }: { signal?: AbortSignal } & Omit<PendingRequest, 'resolve' | 'reject'> = {}
+): Promise<IngestionResults[K]> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+
+  const requestId = nextRequestId++;
+  const onAbort = () => {
+    pending.delete(requestId);
+    worker?.postMessage({ type: 'cancel', requestId } satisfies IngestionRequest);
+    reject(createAbortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  pending.set(requestId, {
+    resolve: result => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(result);
+    },
+    reject: error => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(error);
+    },
+    onProgress,
+    onBatch,
+  });
+  getWorker().postMessage({ ...message, requestId });
+});
+
+/**
+ * Extracts a file's text in the ingestion worker, keeping large PDFs from freezing the page.
+ * Formats whose extractor needs the DOM are extracted on the main thread instead.
+ */
+export const extractDocument = (file: File, options: ExtractionOptions = {}): Promise<ExtractedDocument> => {
+  if (findExtractor(file)?.requiresDom) {
+    return processFile(file, options);
+  }
+  return request<'extract'>({ type: 'extract', file }, options);
+};
+
+/**
+ * Chunks and embeds a document in the ingestion worker and returns its serialized index.
+ * Accepts the same options as `VectorStore.addDocument`; custom chunker functions can't be sent
+ * to the worker, so documents using one are embedded on the main thread.
+ */
+export const indexDocument = async (
+  text: string,
+  embeddingProvider: EmbeddingProvider,
+  options: IngestionOptions = {}
+): Promise<SerializedVectorStore> => {
+  const { onProgress, chunking, signal, resumeFrom, onBatchComplete, retries } = options;
+  const strategy = chunking?.strategy;
+  if (typeof strategy === 'function') {
+    const documentStore = new VectorStore();
+    await documentStore.addDocument('document', text, embeddingProvider, options);
+    return documentStore.serializeDocument('document');
+  }
+
+  // The worker doesn't wait for checkpoints to be saved, so indexing waits for them before it settles.
+  const checkpoints: Promise<void>[] = [];
+  try {
+    return await request<'index'>(
+      {
+        type: 'index',
+        text,
+        providerId: embeddingProvider.id,
+        chunking: chunking && { ...chunking, strategy },
+        resumeFrom,
+        retries,
+      },
+      {
+        signal,
+        onProgress,
+        onBatch: (entries, firstIndex) => {
+          if (onBatchComplete) checkpoints.push(Promise.resolve(onBatchComplete(entries, firstIndex)));
+        },
+      }
+    );
+  } finally {
+    await Promise.allSettled(checkpoints);
+  }
+};
+
+let nextStoreId = 0;
+
+/**
+ * A vector store that lives in the ingestion worker, so search scoring runs off the main thread.
+ * Mirrors the parts of `VectorStore` the app uses, with every operation asynchronous.
+ * Embedding providers are looked up by id inside the worker, so custom providers must be registered there too.
+ */
+export class WorkerVectorStore {
+  private storeId = `store-${nextStoreId++}`;
+  private models = new Map<string, EmbeddingModelInfo | undefined>();
+
+  /** The provider and dimensionality of the indexed embeddings, or null while the store is empty. */
+  get embeddingModel(): EmbeddingModelInfo | null {
+    for (const model of this.models.values()) {
+      if (model) return model;
+    }
+    return null;
+  }
+
+  hasDocument(documentId: string): boolean {
+    return this.models.has(documentId);
+  }
+
+  async importDocument(documentId: string, data: SerializedVectorStore): Promise<void> {
+    await request<'import'>({ type: 'import', storeId: this.storeId, documentId, data });
+    this.models.set(documentId, data.model);
+  }
+
+  async removeDocument(documentId: string): Promise<void> {
+    this.models.delete(documentId);
+    await request<'remove'>({ type: 'remove', storeId: this.storeId, documentId });
+  }
+
+  search(query: string, embeddingProvider: EmbeddingProvider, options: SearchOptions = {}): Promise<VectorSearchResult[]> {
+    return request<'search'>({ type: 'search', storeId: this.storeId, query, providerId: embeddingProvider.id, options });
+  }
+
+  /** Frees the store's entries in the worker. */
+  async dispose(): Promise<void> {
+    this.models.clear();
+    await request<'dispose'>({ type: 'dispose', storeId: this.storeId });
+  }
+
+  static async deserialize(data: SerializedVectorStore, documentId: string): Promise<WorkerVectorStore> {
+    const store = new WorkerVectorStore();
+    await store.importDocument(documentId, data);
+    return store;
+  }
+}
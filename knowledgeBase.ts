@@ -0,0 +1,45 @@
+import { STORES, getAllRecords, getRecord, putRecord, deleteRecord, createRecordId } from './localDb';
+import { PageSpan } from './documentProcessor';
+
+export interface KnowledgeDocument {
+  id: string;
+  fileName: string;
+  displayName: string;
+  contentHash: string;
+  /** Cache key of the document's embedding index; differs per chunking configuration. */
+  indexKey: string;
+  chunking: string;
+  embeddingProviderId: string;
+  chunkCount: number;
+  pages: PageSpan[];
+  addedAt: number;
+}
+
+export const listKnowledgeDocuments = async (): Promise<KnowledgeDocument[]> => {
+  const documents = await getAllRecords<KnowledgeDocument>(STORES.knowledgeDocuments);
+  return documents.sort((a, b) => a.addedAt - b.addedAt);
+};
+
+export const saveKnowledgeDocument = async (document: KnowledgeDocument): Promise<void> => {
+  await putRecord(STORES.knowledgeDocuments, document);
+};
+
+export const deleteKnowledgeDocument = async (documentId: string): Promise<void> => {
+  await deleteRecord(STORES.knowledgeDocuments, documentId);
+};
+
+// The original upload is kept so citations can open the page they refer to.
+export const saveDocumentFile = async (documentId: string, file: Blob): Promise<void> => {
+  await putRecord(STORES.documentFiles, { id: documentId, file });
+};
+
+export const loadDocumentFile = async (documentId: string): Promise<Blob | null> => {
+  const record = await getRecord<{ id: string; file: Blob }>(STORES.documentFiles, documentId);
+  return record?.file ?? null;
+};
+
+export const deleteDocumentFile = async (documentId: string): Promise<void> => {
+  await deleteRecord(STORES.documentFiles, documentId);
+};
+
+export const createDocumentId = (): string => createRecordId('doc');
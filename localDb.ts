@@ -0,0 +1,95 @@
+const DB_NAME = 'celestial-learning-hub';
+const DB_VERSION = 8;
+
+// Every object store is keyed by an `id` property on the stored record.
+export const STORES = {
+  vectorIndexes: 'vectorIndexes',
+  knowledgeDocuments: 'knowledgeDocuments',
+  documentFiles: 'documentFiles',
+  ingestionCheckpoints: 'ingestionCheckpoints',
+  chatSessions: 'chatSessions',
+  quizResults: 'quizResults',
+  flashcardDecks: 'flashcardDecks',
+  flashcards: 'flashcards',
+  studyEvents: 'studyEvents',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported in this environment.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach(storeName => {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. blocked by another tab).
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || request.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction was aborted.'));
+  });
+};
+
+export const getRecord = async <T>(storeName: StoreName, id: IDBValidKey): Promise<T | undefined> => {
+  return runRequest<T | undefined>(storeName, 'readonly', store => store.get(id));
+};
+
+export const getAllRecords = async <T>(storeName: StoreName): Promise<T[]> => {
+  return runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+};
+
+export const getRecordsInRange = async <T>(storeName: StoreName, range: IDBKeyRange): Promise<T[]> => {
+  return runRequest<T[]>(storeName, 'readonly', store => store.getAll(range));
+};
+
+export const putRecord = async <T extends { id: IDBValidKey }>(storeName: StoreName, record: T): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.put(record));
+};
+
+export const deleteRecord = async (storeName: StoreName, id: IDBValidKey): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.delete(id));
+};
+
+export const deleteRecordsInRange = async (storeName: StoreName, range: IDBKeyRange): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.delete(range));
+};
+
+export const createRecordId = (prefix: string): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+};
@@ -1,5 +1,15 @@
+import React from 'react';
 import { Persona, PersonaConfig } from '../types';
 import { SparklesIcon, QuestionIcon, ExplainIcon, UserCircleIcon } from '../components/common/Icon';
+import { CustomPersona, CustomPersonaId, PersonaIconName, isCustomPersonaId, listCustomPersonas } from '../lib/customPersonas';
+
+// Adaptive isn't a tutoring style of its own: it answers as one of the built-in levels, so it has an id outside Persona.
+export const ADAPTIVE_PERSONA_ID = 'adaptive';
+
+/** A built-in persona, the Adaptive persona or one created by an instructor. */
+export type PersonaId = Persona | typeof ADAPTIVE_PERSONA_ID | CustomPersonaId;
+
+export type AnyPersonaConfig = Omit<PersonaConfig, 'id'> & { id: PersonaId };
 
 export const personaConfigs: Record<Persona, PersonaConfig> = {
   [Persona.Default]: {
@@ -32,9 +42,43 @@ export const personaConfigs: Record<Persona, PersonaConfig> = {
   },
 };
 
-export const personaList: PersonaConfig[] = [
+export const adaptivePersonaConfig: AnyPersonaConfig = {
+  id: ADAPTIVE_PERSONA_ID,
+  name: 'Adaptive',
+  description: 'Starts at Intermediate and adjusts to how you are doing.',
+  Icon: SparklesIcon,
+  systemInstruction: "You are a tutor who adapts to the learner. Start at an intermediate level with encouraging feedback and a clear, direct answer. Watch how the learner responds: if they seem confused or ask for simpler explanations, switch to short sentences, everyday analogies and no jargon; if they handle the material easily, go deeper into technical detail, nuances and exceptions. Always end with a question pitched at the level you have settled on.",
+};
+
+export const personaList: AnyPersonaConfig[] = [
     personaConfigs[Persona.Simple],
     personaConfigs[Persona.Default],
     personaConfigs[Persona.Expert],
     personaConfigs[Persona.Socratic],
-];
\ No newline at end of file
+    adaptivePersonaConfig,
+];
+
+export const personaIcons: Record<PersonaIconName, React.FC<{ className?: string }>> = {
+  sparkles: SparklesIcon,
+  question: QuestionIcon,
+  explain: ExplainIcon,
+  user: UserCircleIcon,
+};
+
+export const toPersonaConfig = (persona: CustomPersona): AnyPersonaConfig => ({
+  id: persona.id,
+  name: persona.name,
+  description: persona.description,
+  Icon: personaIcons[persona.icon] ?? SparklesIcon,
+  systemInstruction: persona.systemInstruction,
+});
+
+/**
+ * Looks up a built-in or custom persona. A custom persona that has since been deleted falls back to the default one.
+ */
+export const getPersonaConfig = (id: PersonaId): AnyPersonaConfig => {
+  if (id === ADAPTIVE_PERSONA_ID) return adaptivePersonaConfig;
+  if (!isCustomPersonaId(id)) return personaConfigs[id];
+  const custom = listCustomPersonas().find(persona => persona.id === id);
+  return custom ? toPersonaConfig(custom) : personaConfigs[Persona.Default];
+};
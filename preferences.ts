@@ -0,0 +1,22 @@
+const PREFIX = 'celestial-learning-hub:';
+
+/**
+ * Reads a JSON value saved with savePreference, falling back when it is missing or unreadable.
+ */
+export const loadPreference = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+};
+
+export const savePreference = <T>(key: string, value: T) => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    // Storage can be full or unavailable (e.g. private browsing); preferences are best-effort.
+    console.error(`Failed to save preference "${key}".`, e);
+  }
+};
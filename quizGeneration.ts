@@ -0,0 +1,206 @@
+import { Type } from '@google/genai';
+import { QuizData } from '../types';
+import { GEMINI_MODEL, getGeminiClient } from './geminiClient';
+import { chunkText } from './chunking';
+import { Bm25Index } from './bm25';
+
+export type QuizQuestionType = 'multiple_choice' | 'true_false' | 'fill_in_blank' | 'short_answer' | 'ordering';
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuizOptions {
+  questionTypes?: QuizQuestionType[];
+  difficulty?: QuizDifficulty;
+  questionCount?: number;
+  /** A chapter, section or theme to focus the questions on, e.g. "chapter 3". */
+  topic?: string;
+}
+
+/**
+ * A quiz question with its type. Multiple-choice and true/false questions list `options`; ordering questions list their
+ * items shuffled in `options` and the right sequence in `correctOrder`; free-text questions have no options.
+ */
+export type TypedQuizQuestion = QuizData['questions'][number] & {
+  type?: QuizQuestionType;
+  /** Other wordings accepted for fill-in-the-blank and short-answer questions. */
+  acceptableAnswers?: string[];
+  correctOrder?: string[];
+};
+
+export const QUIZ_QUESTION_TYPES: Record<QuizQuestionType, string> = {
+  multiple_choice: 'Multiple choice',
+  true_false: 'True / false',
+  fill_in_blank: 'Fill in the blank',
+  short_answer: 'Short answer',
+  ordering: 'Ordering',
+};
+
+export const DEFAULT_QUIZ_OPTIONS: Required<Omit<QuizOptions, 'topic'>> = {
+  questionTypes: ['multiple_choice'],
+  difficulty: 'medium',
+  questionCount: 5,
+};
+
+export const MAX_QUIZ_QUESTIONS = 20;
+
+// Long documents are cut to keep the prompt within a reasonable size, after picking the sections on the topic.
+const MAX_SOURCE_CHARACTERS = 30000;
+const MAX_ATTEMPTS = 2;
+
+const TYPE_GUIDANCE: Record<QuizQuestionType, string> = {
+  multiple_choice: 'multiple_choice: 4 options; correctAnswer is the exact text of the right option.',
+  true_false: 'true_false: options are exactly ["True", "False"]; correctAnswer is "True" or "False".',
+  fill_in_blank: 'fill_in_blank: the question contains "___" where the missing word or phrase goes; no options; correctAnswer is the missing text.',
+  short_answer: 'short_answer: no options; correctAnswer is a model answer of at most one sentence; list other accepted wordings in acceptableAnswers.',
+  ordering: 'ordering: 3 to 6 steps or events; correctOrder lists them in the right order and options lists the same items shuffled; correctAnswer joins correctOrder with " → ".',
+};
+
+const quizSchema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: Object.keys(QUIZ_QUESTION_TYPES) },
+          question: { type: Type.STRING },
+          options: { type: Type.ARRAY, items: { type: Type.STRING } },
+          correctAnswer: { type: Type.STRING },
+          acceptableAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+          correctOrder: { type: Type.ARRAY, items: { type: Type.STRING } },
+          explanation: { type: Type.STRING },
+        },
+        required: ['type', 'question', 'options', 'correctAnswer', 'explanation'],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
+export const resolveQuizOptions = (options: QuizOptions = {}) => {
+  const questionTypes = options.questionTypes?.length ? options.questionTypes : DEFAULT_QUIZ_OPTIONS.questionTypes;
+  const questionCount = Math.min(Math.max(Math.round(options.questionCount ?? DEFAULT_QUIZ_OPTIONS.questionCount), 1), MAX_QUIZ_QUESTIONS);
+  return { questionTypes, questionCount, difficulty: options.difficulty ?? DEFAULT_QUIZ_OPTIONS.difficulty, topic: options.topic?.trim() || undefined };
+};
+
+const sameItems = (a: string[], b: string[]) => a.length === b.length && [...a].sort().join('\n') === [...b].sort().join('\n');
+
+/**
+ * Checks generated quiz data against the requested options and the shape each question type needs.
+ * @returns A list of problems, empty when the quiz is valid.
+ */
+export const validateQuiz = (data: any, options: QuizOptions = {}): string[] => {
+  const { questionTypes, questionCount } = resolveQuizOptions(options);
+  if (!data || !Array.isArray(data.questions)) return ['The response has no "questions" array.'];
+
+  const problems: string[] = [];
+  if (data.questions.length !== questionCount) {
+    problems.push(`Expected ${questionCount} questions but got ${data.questions.length}.`);
+  }
+  data.questions.forEach((question: any, i: number) => {
+    const label = `Question ${i + 1}`;
+    if (typeof question?.question !== 'string' || !question.question.trim()) {
+      problems.push(`${label} has no question text.`);
+      return;
+    }
+    if (!questionTypes.includes(question.type)) {
+      problems.push(`${label} is of type "${question.type}", which was not requested.`);
+      return;
+    }
+    const questionOptions: string[] = Array.isArray(question.options) ? question.options : [];
+    const answer = typeof question.correctAnswer === 'string' ? question.correctAnswer.trim() : '';
+    if (!answer) problems.push(`${label} has no correct answer.`);
+
+    switch (question.type as QuizQuestionType) {
+      case 'multiple_choice':
+        if (questionOptions.length < 2) problems.push(`${label} needs at least two options.`);
+        if (answer && !questionOptions.includes(answer)) problems.push(`${label}'s correct answer is not one of its options.`);
+        break;
+      case 'true_false':
+        if (!sameItems(questionOptions, ['True', 'False'])) problems.push(`${label}'s options must be "True" and "False".`);
+        if (answer !== 'True' && answer !== 'False') problems.push(`${label}'s correct answer must be "True" or "False".`);
+        break;
+      case 'fill_in_blank':
+        if (!question.question.includes('___')) problems.push(`${label} has no "___" blank.`);
+        break;
+      case 'short_answer':
+        break;
+      case 'ordering':
+        if (!Array.isArray(question.correctOrder) || question.correctOrder.length < 3) {
+          problems.push(`${label} needs at least three items in correctOrder.`);
+        } else if (!sameItems(questionOptions, question.correctOrder)) {
+          problems.push(`${label}'s options must be the items of correctOrder.`);
+        }
+        break;
+    }
+  });
+  return problems;
+};
+
+/**
+ * The material to write the quiz from. When a long document is focused on a topic, the sections that match it best
+ * are kept, in document order, so "chapter 3" isn't lost past the size limit.
+ */
+const selectSourceText = (text: string, topic?: string): string => {
+  if (text.length <= MAX_SOURCE_CHARACTERS || !topic?.trim()) return text.slice(0, MAX_SOURCE_CHARACTERS);
+
+  // Heading chunks carry their section title, so every part of "Chapter 3" matches the topic, not only its first page.
+  const chunks = chunkText(text, { strategy: 'heading' });
+  const index = new Bm25Index();
+  chunks.forEach((chunk, i) => index.add(String(i), chunk.text));
+  const ranked = Array.from(index.score(topic).entries()).sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0) return text.slice(0, MAX_SOURCE_CHARACTERS);
+
+  const picked: number[] = [];
+  let length = 0;
+  for (const [key] of ranked) {
+    const chunk = chunks[Number(key)];
+    if (length + chunk.text.length > MAX_SOURCE_CHARACTERS) continue;
+    picked.push(Number(key));
+    length += chunk.text.length + 2;
+  }
+  return picked.sort((a, b) => a - b).map(i => chunks[i].text).join('\n\n');
+};
+
+const buildPrompt = (material: string, options: QuizOptions, problems: string[]) => {
+  const { questionTypes, questionCount, difficulty, topic } = resolveQuizOptions(options);
+  return [
+    `Write a ${difficulty} quiz of exactly ${questionCount} questions based only on the study material below.`,
+    topic ? `Focus every question on: ${topic}.` : '',
+    `Use only these question types, mixing them evenly: ${questionTypes.join(', ')}.`,
+    'Rules per type:',
+    ...questionTypes.map(type => `- ${TYPE_GUIDANCE[type]}`),
+    'Give every question a short explanation that refers to the material.',
+    problems.length > 0 ? `Your previous attempt was rejected for these reasons; fix them:\n${problems.map(p => `- ${p}`).join('\n')}` : '',
+    `Study material:\n${material}`,
+  ].filter(Boolean).join('\n\n');
+};
+
+/**
+ * Generates a quiz with the requested question types, difficulty, length and topic. The model's output is validated
+ * against the options and regenerated once with the problems listed if it doesn't match.
+ */
+export const generateQuizWithOptions = async (text: string, options: QuizOptions = {}): Promise<QuizData> => {
+  const material = selectSourceText(text, options.topic);
+  let problems: string[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const response = await getGeminiClient().models.generateContent({
+      model: GEMINI_MODEL,
+      contents: buildPrompt(material, options, problems),
+      config: { responseMimeType: 'application/json', responseSchema: quizSchema },
+    });
+
+    let data: any;
+    try {
+      data = JSON.parse(response.text ?? '');
+    } catch {
+      problems = ['The response was not valid JSON.'];
+      continue;
+    }
+    problems = validateQuiz(data, options);
+    if (problems.length === 0) {
+      return data as QuizData;
+    }
+  }
+  throw new Error(`The generated quiz didn't match the requested format. ${problems.join(' ')}`);
+};
@@ -0,0 +1,162 @@
+import { QuizData } from '../types';
+import { STORES, getAllRecords, putRecord, createRecordId } from './localDb';
+import { chunkText } from './chunking';
+import { Bm25Index } from './bm25';
+import { TypedQuizQuestion } from './quizGeneration';
+
+type QuizQuestion = TypedQuizQuestion;
+
+/** Separates the items of an ordering answer. */
+export const ORDER_SEPARATOR = ' → ';
+
+/** The document a quiz was generated from, used to ground explanations and to group results. */
+export interface QuizSource {
+  /** Content hash of the source text, so results for the same document line up across uploads. */
+  documentKey: string;
+  documentName: string;
+  /** Missing for quizzes reopened from a saved or imported session, which only keep the reference. */
+  text?: string;
+}
+
+export interface QuizAnswer {
+  questionIndex: number;
+  selected: string;
+  correct: boolean;
+}
+
+export interface QuizSessionState {
+  quiz: QuizData;
+  source: QuizSource | null;
+  /** 1 for the full quiz, then 2, 3... for rounds retrying missed questions. */
+  round: number;
+  /** Indices into `quiz.questions` asked this round, in order. */
+  questionOrder: number[];
+  position: number;
+  answers: QuizAnswer[];
+  finished: boolean;
+}
+
+export interface QuizResult {
+  id: string;
+  documentKey: string;
+  documentName: string;
+  round: number;
+  correct: number;
+  total: number;
+  missedQuestions: string[];
+  completedAt: number;
+}
+
+export const createQuizSession = (
+  quiz: QuizData,
+  source: QuizSource | null,
+  questionOrder = quiz.questions.map((_, index) => index),
+  round = 1
+): QuizSessionState => ({ quiz, source, round, questionOrder, position: 0, answers: [], finished: false });
+
+export const currentQuestion = (state: QuizSessionState): QuizQuestion | undefined =>
+  state.quiz.questions[state.questionOrder[state.position]];
+
+export const currentAnswer = (state: QuizSessionState): QuizAnswer | undefined =>
+  state.answers.find(answer => answer.questionIndex === state.questionOrder[state.position]);
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Free-text answers are compared without punctuation or articles, so "the Mitochondria." matches "mitochondria".
+const normalizeFreeText = (text: string) => normalize(text).replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\b(a|an|the)\b/g, '').replace(/\s+/g, ' ').trim();
+
+/** Whether the student types their answer rather than picking or arranging options. */
+export const isFreeTextQuestion = (question: QuizQuestion) =>
+  question.type === 'fill_in_blank' || question.type === 'short_answer' || (!question.type && question.options.length === 0);
+
+/**
+ * Checks a student's answer. For option questions the model gives the answer either as the option's text, or as its
+ * letter ("B", "B)", "B. Mitochondria"); ordering answers are the items joined by ORDER_SEPARATOR.
+ */
+export const isCorrectAnswer = (question: QuizQuestion, selected: string): boolean => {
+  if (question.type === 'ordering' && question.correctOrder) {
+    return selected === question.correctOrder.join(ORDER_SEPARATOR);
+  }
+  if (isFreeTextQuestion(question)) {
+    const given = normalizeFreeText(selected);
+    return [question.correctAnswer, ...(question.acceptableAnswers ?? [])].some(answer => normalizeFreeText(answer) === given);
+  }
+  const answer = normalize(question.correctAnswer);
+  if (question.options.some(o => normalize(o) === answer)) return normalize(selected) === answer;
+  const letter = answer.match(/^([a-z])(?:[).:\s]|$)/)?.[1];
+  return letter !== undefined && question.options.indexOf(selected) === letter.charCodeAt(0) - 97;
+};
+
+/** The correct answer as it should be shown to the student. */
+export const correctAnswerText = (question: QuizQuestion): string => {
+  if (question.type === 'ordering' && question.correctOrder) return question.correctOrder.join(ORDER_SEPARATOR);
+  if (isFreeTextQuestion(question)) return question.correctAnswer;
+  return question.options.find(option => isCorrectAnswer(question, option)) ?? question.correctAnswer;
+};
+
+export const answerCurrentQuestion = (state: QuizSessionState, option: string): QuizSessionState => {
+  const question = currentQuestion(state);
+  if (!question || currentAnswer(state)) return state;
+  return {
+    ...state,
+    answers: [...state.answers, { questionIndex: state.questionOrder[state.position], selected: option, correct: isCorrectAnswer(question, option) }],
+  };
+};
+
+export const advanceQuizSession = (state: QuizSessionState): QuizSessionState =>
+  state.position + 1 >= state.questionOrder.length
+    ? { ...state, finished: true }
+    : { ...state, position: state.position + 1 };
+
+export const scoreQuizRound = (state: QuizSessionState) => ({
+  correct: state.answers.filter(answer => answer.correct).length,
+  total: state.questionOrder.length,
+});
+
+export const missedQuestionIndices = (state: QuizSessionState): number[] =>
+  state.answers.filter(answer => !answer.correct).map(answer => answer.questionIndex);
+
+/**
+ * Starts a new round with only the questions answered incorrectly in this one.
+ */
+export const retryMissedQuestions = (state: QuizSessionState): QuizSessionState =>
+  createQuizSession(state.quiz, state.source, missedQuestionIndices(state), state.round + 1);
+
+/**
+ * Finds the passages of the source document most related to a question, by keyword relevance,
+ * so explanations can quote the material rather than the model's general knowledge.
+ */
+export const findSupportingPassages = (source: QuizSource, query: string, count = 3): string[] => {
+  if (!source.text) return [];
+  const chunks = chunkText(source.text);
+  const index = new Bm25Index();
+  chunks.forEach((chunk, i) => index.add(String(i), chunk.text));
+  return Array.from(index.score(query).entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([key]) => chunks[Number(key)].text);
+};
+
+export const saveQuizResult = async (state: QuizSessionState): Promise<QuizResult | null> => {
+  if (!state.source) return null;
+  const { correct, total } = scoreQuizRound(state);
+  const result: QuizResult = {
+    id: createRecordId('quiz-result'),
+    documentKey: state.source.documentKey,
+    documentName: state.source.documentName,
+    round: state.round,
+    correct,
+    total,
+    missedQuestions: missedQuestionIndices(state).map(index => state.quiz.questions[index].question),
+    completedAt: Date.now(),
+  };
+  await putRecord(STORES.quizResults, result);
+  return result;
+};
+
+export const listQuizResults = async (documentKey?: string): Promise<QuizResult[]> => {
+  const results = await getAllRecords<QuizResult>(STORES.quizResults);
+  return results
+    .filter(result => !documentKey || result.documentKey === documentKey)
+    .sort((a, b) => b.completedAt - a.completedAt);
+};
@@ -0,0 +1,321 @@
+import {
+  RecognitionOptions, RecognizedSpeech, SpeakOptions, SpeechEngine, SpeechRecognizer, SpeechServerConfig, SpeechSynthesizer,
+} from './speechEngines';
+import { WebSpeechSynthesizer } from './webSpeechEngine';
+import { createAbortError, isAbortError } from './retry';
+
+// Without the browser's recognizer there is no end-of-utterance detection, so the microphone level decides:
+// an utterance ends after this much quiet following speech.
+const END_OF_UTTERANCE_MS = 1200;
+const NO_SPEECH_TIMEOUT_MS = 8000;
+const LEVEL_CHECK_INTERVAL_MS = 100;
+// RMS level of the microphone signal, from 0 to 1, above which someone is taken to be speaking.
+const SPEECH_LEVEL = 0.02;
+// A hung transcription service must not leave the recognizer listening forever.
+const TRANSCRIPTION_TIMEOUT_MS = 15000;
+
+interface RecordingEvents {
+  onstart: () => void;
+  onresult: (results: RecognizedSpeech[]) => void;
+  onerror: (error: string) => void;
+  onend: () => void;
+}
+
+/** One run of the recognizer, from start() until it ends; a new start() gets a fresh session. */
+class RecordingSession {
+  private config: SpeechServerConfig;
+  private options: RecognitionOptions;
+  private events: RecordingEvents;
+  private stream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private monitor: ReturnType<typeof setInterval> | null = null;
+  private segment: { recorder: MediaRecorder; chunks: Blob[] } | null = null;
+  private segmentStartedAt = 0;
+  private lastSpeechAt = 0;
+  private heardSpeech = false;
+  private stopping = false;
+  // Capture has been released; results still being transcribed may follow.
+  private ended = false;
+  // onend has fired, so the session is over.
+  private finished = false;
+  // Utterances are transcribed one after another so results arrive in the order they were spoken.
+  private transcriptions: Promise<void> = Promise.resolve();
+  private controller = new AbortController();
+
+  constructor(config: SpeechServerConfig, options: RecognitionOptions, events: RecordingEvents) {
+    this.config = config;
+    this.options = options;
+    this.events = events;
+  }
+
+  async begin() {
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    } catch (e) {
+      console.error("Failed to open the microphone.", e);
+      const denied = e instanceof DOMException && (e.name === 'NotAllowedError' || e.name === 'SecurityError');
+      this.fail(denied ? 'not-allowed' : 'audio-capture');
+      return;
+    }
+    // Stopped or aborted while the browser was asking for permission.
+    if (this.ended) {
+      this.releaseCapture();
+      return;
+    }
+    if (this.stopping) {
+      this.end();
+      return;
+    }
+
+    this.audioContext = new AudioContext();
+    this.analyser = this.audioContext.createAnalyser();
+    this.audioContext.createMediaStreamSource(this.stream).connect(this.analyser);
+    this.startSegment();
+    this.monitor = setInterval(() => this.checkLevel(), LEVEL_CHECK_INTERVAL_MS);
+    this.events.onstart();
+  }
+
+  stop() {
+    if (this.ended) return;
+    this.stopping = true;
+    if (this.segment && this.heardSpeech) this.finishSegment();
+    else if (this.segment) this.end();
+    // Otherwise begin() ends the session once the microphone opens.
+  }
+
+  /** Ends the session straight away, including while it waits for transcriptions, dropping their results. */
+  fail(error: string) {
+    if (this.finished) return;
+    this.ended = true;
+    this.controller.abort();
+    this.releaseCapture();
+    this.events.onerror(error);
+    this.finish();
+  }
+
+  private startSegment() {
+    const recorder = new MediaRecorder(this.stream!);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.start();
+    this.segment = { recorder, chunks };
+    this.segmentStartedAt = Date.now();
+    this.heardSpeech = false;
+  }
+
+  private discardSegment() {
+    if (this.segment && this.segment.recorder.state !== 'inactive') this.segment.recorder.stop();
+    this.segment = null;
+  }
+
+  private checkLevel() {
+    if (!this.analyser) return;
+    const samples = new Uint8Array(this.analyser.fftSize);
+    this.analyser.getByteTimeDomainData(samples);
+    let sumOfSquares = 0;
+    for (const sample of samples) {
+      const amplitude = (sample - 128) / 128;
+      sumOfSquares += amplitude * amplitude;
+    }
+    const level = Math.sqrt(sumOfSquares / samples.length);
+    const now = Date.now();
+
+    if (level >= SPEECH_LEVEL) {
+      this.heardSpeech = true;
+      this.lastSpeechAt = now;
+    } else if (this.heardSpeech) {
+      if (now - this.lastSpeechAt >= END_OF_UTTERANCE_MS) this.finishSegment();
+    } else if (now - this.segmentStartedAt >= NO_SPEECH_TIMEOUT_MS) {
+      if (this.options.continuous) {
+        // Nothing worth sending; start over so recordings don't grow through long silences.
+        this.discardSegment();
+        this.startSegment();
+      } else {
+        this.fail('no-speech');
+      }
+    }
+  }
+
+  private finishSegment() {
+    if (!this.segment) return;
+    const { recorder, chunks } = this.segment;
+    this.segment = null;
+    const recording = new Promise<Blob>(resolve => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType }));
+      recorder.stop();
+    });
+    this.transcriptions = this.transcriptions.then(async () => this.transcribe(await recording));
+
+    if (this.options.continuous && !this.stopping) this.startSegment();
+    else this.end();
+  }
+
+  private async transcribe(audio: Blob) {
+    if (this.controller.signal.aborted) return;
+    const request = new AbortController();
+    const cancel = () => request.abort();
+    this.controller.signal.addEventListener('abort', cancel, { once: true });
+    const timeout = setTimeout(cancel, TRANSCRIPTION_TIMEOUT_MS);
+    try {
+      const url = new URL(this.config.transcriptionUrl, window.location.href);
+      url.searchParams.set('language', this.options.language);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': audio.type || 'application/octet-stream' },
+        body: audio,
+        signal: request.signal,
+      });
+      if (!response.ok) throw new Error(`The transcription service responded with status ${response.status}.`);
+      const { transcript } = await response.json();
+      const text = typeof transcript === 'string' ? transcript.trim() : '';
+      if (text) this.events.onresult([{ transcript: text, isFinal: true }]);
+    } catch (e) {
+      if (this.controller.signal.aborted) return;
+      console.error(isAbortError(e) ? "Speech transcription timed out." : "Failed to transcribe speech.", e);
+      // Like the browser's recognizer, a network error ends the session.
+      this.fail('network');
+    } finally {
+      clearTimeout(timeout);
+      this.controller.signal.removeEventListener('abort', cancel);
+    }
+  }
+
+  // Waits for utterances still being transcribed, so their results come before the end.
+  private async end() {
+    if (this.ended) return;
+    this.ended = true;
+    this.releaseCapture();
+    await this.transcriptions;
+    this.finish();
+  }
+
+  private finish() {
+    if (this.finished) return;
+    this.finished = true;
+    this.events.onend();
+  }
+
+  private releaseCapture() {
+    if (this.monitor) clearInterval(this.monitor);
+    this.monitor = null;
+    this.discardSegment();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.audioContext?.close().catch(e => console.error("Failed to close the audio context.", e));
+    this.audioContext = null;
+    this.analyser = null;
+  }
+}
+
+/**
+ * Recognizes speech by recording it with MediaRecorder and posting each utterance to the transcription endpoint,
+ * so it works in browsers without SpeechRecognition. It only reports final results.
+ */
+class RecordedSpeechRecognizer implements SpeechRecognizer {
+  onstart: SpeechRecognizer['onstart'] = null;
+  onresult: SpeechRecognizer['onresult'] = null;
+  onerror: SpeechRecognizer['onerror'] = null;
+  onend: SpeechRecognizer['onend'] = null;
+  private config: SpeechServerConfig;
+  private session: RecordingSession | null = null;
+
+  constructor(config: SpeechServerConfig) {
+    this.config = config;
+  }
+
+  start(options: RecognitionOptions) {
+    if (this.session) throw new DOMException('Speech recognition has already started.', 'InvalidStateError');
+    const session = new RecordingSession(this.config, options, {
+      onstart: () => this.onstart?.(),
+      onresult: results => this.onresult?.(results),
+      onerror: error => this.onerror?.(error),
+      onend: () => {
+        if (this.session === session) this.session = null;
+        this.onend?.();
+      },
+    });
+    this.session = session;
+    session.begin();
+  }
+
+  stop() {
+    this.session?.stop();
+  }
+
+  abort() {
+    this.session?.fail('aborted');
+  }
+}
+
+/** Speaks by posting the text to the synthesis endpoint and playing the audio it returns. */
+class ServerSpeechSynthesizer implements SpeechSynthesizer {
+  private synthesisUrl: string;
+  private controller: AbortController | null = null;
+
+  constructor(synthesisUrl: string) {
+    this.synthesisUrl = synthesisUrl;
+  }
+
+  async speak(text: string, { language, voice, rate, pitch }: SpeakOptions) {
+    this.cancel();
+    const controller = new AbortController();
+    this.controller = controller;
+
+    const response = await fetch(this.synthesisUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, language, voice: voice?.voiceURI ?? null, rate, pitch }),
+      signal: controller.signal,
+    });
+    if (!response.ok) throw new Error(`The speech service responded with status ${response.status}.`);
+    const url = URL.createObjectURL(await response.blob());
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        if (controller.signal.aborted) {
+          reject(createAbortError());
+          return;
+        }
+        const audio = new Audio(url);
+        audio.onended = () => resolve();
+        audio.onerror = () => reject(new Error('The speech service returned audio that could not be played.'));
+        controller.signal.addEventListener('abort', () => {
+          audio.pause();
+          reject(createAbortError());
+        }, { once: true });
+        audio.play().catch(reject);
+      });
+    } finally {
+      URL.revokeObjectURL(url);
+      if (this.controller === controller) this.controller = null;
+    }
+  }
+
+  cancel() {
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  // The service picks a voice for the requested language.
+  getVoices() {
+    return [];
+  }
+
+  onVoicesChanged() {
+    return () => {};
+  }
+}
+
+export const recordedSpeechEngine: SpeechEngine = {
+  id: 'recorded-audio',
+  name: 'Speech service',
+  description: 'Records your voice and sends it to the configured transcription service. Works in any browser with a microphone, including Firefox.',
+  isSupported: config =>
+    !!config.transcriptionUrl.trim() && typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia,
+  // Without a synthesis endpoint, answers are read with the browser's voices, which Firefox does have.
+  createSynthesizer: config => (config.synthesisUrl.trim() ? new ServerSpeechSynthesizer(config.synthesisUrl) : new WebSpeechSynthesizer()),
+  createRecognizer: config => new RecordedSpeechRecognizer(config),
+};
@@ -0,0 +1,170 @@
+/**
+ * A stand-in for the transcription and speech synthesis services used by the "Speech service" engine, for trying the
+ * recorded-audio path and for tests without a real speech provider. Run it with `npx tsx scripts/mockSpeechServer.ts`
+ * (PORT defaults to 8787) and set the endpoints in the voice settings to:
+ *
+ *   Transcription URL:      http://localhost:8787/transcribe
+ *   Speech synthesis URL:   http://localhost:8787/synthesize
+ *
+ * /transcribe answers each recording with the next queued transcript, or a fixed question when none are queued.
+ * /synthesize answers with a WAV tone whose length follows the length of the text. Tests can control and inspect it:
+ *
+ *   POST /mock/transcripts  { "transcripts": ["quiz me on cells"] }  queues transcripts
+ *   GET  /mock/requests                                               lists the requests received so far
+ *   POST /mock/reset                                                  clears both
+ *
+ * Tests can also start it in-process with startMockSpeechServer(port) and close the server it returns.
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_TRANSCRIPT = 'What is photosynthesis?';
+const SAMPLE_RATE = 16000;
+
+interface ReceivedRequest {
+  path: string;
+  language: string | null;
+  contentType: string | null;
+  bytes: number;
+  /** The parsed JSON body of synthesis requests. */
+  body?: unknown;
+}
+
+// Each server keeps its own state, so tests running several don't share transcripts.
+interface MockState {
+  queuedTranscripts: string[];
+  received: ReceivedRequest[];
+}
+
+const readBody = (request: IncomingMessage) => new Promise<Buffer>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  request.on('data', (chunk: Buffer) => chunks.push(chunk));
+  request.on('end', () => resolve(Buffer.concat(chunks)));
+  request.on('error', reject);
+});
+
+const sendJson = (response: ServerResponse, status: number, value: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(value));
+};
+
+// A quiet 440 Hz tone as 16-bit mono PCM, about a third of a second per five words.
+const createToneWav = (text: string): Buffer => {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  const sampleCount = Math.round(SAMPLE_RATE * Math.max(0.3, words * 0.07));
+  const wav = Buffer.alloc(44 + sampleCount * 2);
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + sampleCount * 2, 4);
+  wav.write('WAVEfmt ', 8);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(SAMPLE_RATE, 24);
+  wav.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36);
+  wav.writeUInt32LE(sampleCount * 2, 40);
+  for (let i = 0; i < sampleCount; i++) {
+    wav.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE) * 3000), 44 + i * 2);
+  }
+  return wav;
+};
+
+const handle = async (state: MockState, request: IncomingMessage, response: ServerResponse) => {
+  // The app calls the services from the browser, so every response allows any origin.
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204).end();
+    return;
+  }
+
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const route = `${request.method} ${url.pathname}`;
+  const body = await readBody(request);
+  const contentType = request.headers['content-type'] ?? null;
+
+  switch (route) {
+    case 'POST /transcribe': {
+      state.received.push({ path: url.pathname, language: url.searchParams.get('language'), contentType, bytes: body.length });
+      sendJson(response, 200, { transcript: state.queuedTranscripts.shift() ?? DEFAULT_TRANSCRIPT });
+      return;
+    }
+    case 'POST /synthesize': {
+      let parsed: { text?: unknown; language?: unknown };
+      try {
+        parsed = JSON.parse(body.toString('utf8'));
+      } catch {
+        sendJson(response, 400, { error: 'Expected a JSON body.' });
+        return;
+      }
+      if (typeof parsed.text !== 'string') {
+        sendJson(response, 400, { error: 'Expected "text" to be a string.' });
+        return;
+      }
+      state.received.push({
+        path: url.pathname,
+        language: typeof parsed.language === 'string' ? parsed.language : null,
+        contentType,
+        bytes: body.length,
+        body: parsed,
+      });
+      response.writeHead(200, { 'Content-Type': 'audio/wav' });
+      response.end(createToneWav(parsed.text));
+      return;
+    }
+    case 'POST /mock/transcripts': {
+      try {
+        const { transcripts } = JSON.parse(body.toString('utf8'));
+        if (!Array.isArray(transcripts) || !transcripts.every(t => typeof t === 'string')) throw new Error();
+        state.queuedTranscripts.push(...transcripts);
+        sendJson(response, 200, { queued: state.queuedTranscripts.length });
+      } catch {
+        sendJson(response, 400, { error: 'Expected { "transcripts": string[] }.' });
+      }
+      return;
+    }
+    case 'GET /mock/requests':
+      sendJson(response, 200, state.received);
+      return;
+    case 'POST /mock/reset':
+      state.queuedTranscripts = [];
+      state.received = [];
+      sendJson(response, 200, { ok: true });
+      return;
+    default:
+      sendJson(response, 404, { error: `No route for ${route}.` });
+  }
+};
+
+/** Starts a mock server, resolving once it listens. Port 0 picks a free port; read it from server.address(). */
+export const startMockSpeechServer = (port = DEFAULT_PORT): Promise<Server> => {
+  const state: MockState = { queuedTranscripts: [], received: [] };
+  const server = createServer((request, response) => {
+    handle(state, request, response).catch(e => {
+      console.error("Mock speech server request failed.", e);
+      if (!response.headersSent) sendJson(response, 500, { error: e instanceof Error ? e.message : 'Request failed.' });
+    });
+  });
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => {
+      server.off('error', reject);
+      resolve(server);
+    });
+  });
+};
+
+// Run directly rather than imported by a test.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || DEFAULT_PORT;
+  startMockSpeechServer(port)
+    .then(() => console.log(`Mock speech server listening on http://localhost:${port}`))
+    .catch(e => {
+      console.error("Failed to start the mock speech server.", e);
+      process.exitCode = 1;
+    });
+}
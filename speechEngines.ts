@@ -0,0 +1,111 @@
+import { loadPreference, savePreference } from './preferences';
+import { webSpeechEngine } from './webSpeechEngine';
+import { recordedSpeechEngine } from './recordedSpeechEngine';
+
+/** The parts of a browser SpeechSynthesisVoice the app uses, so engines without one can describe their voices too. */
+export interface SpeechVoice {
+  voiceURI: string;
+  name: string;
+  lang: string;
+  localService: boolean;
+}
+
+export interface RecognitionOptions {
+  /** A BCP 47 tag such as 'af-ZA'. */
+  language: string;
+  /** Keep listening across pauses instead of stopping after the first utterance. */
+  continuous: boolean;
+  /** Report words as they are heard, before the utterance is finished. Engines may not support this. */
+  interimResults: boolean;
+}
+
+export interface RecognizedSpeech {
+  transcript: string;
+  isFinal: boolean;
+}
+
+/**
+ * Turns the microphone into text. It mirrors the browser's SpeechRecognition: handlers are assigned as properties,
+ * starting twice throws an InvalidStateError, and errors use its codes ('not-allowed', 'no-speech', 'aborted',
+ * 'network', ...). stop() delivers what was heard so far; abort() throws it away.
+ */
+export interface SpeechRecognizer {
+  onstart: (() => void) | null;
+  /** The results that are new or changed since the last call. */
+  onresult: ((results: RecognizedSpeech[]) => void) | null;
+  onerror: ((error: string) => void) | null;
+  onend: (() => void) | null;
+  start: (options: RecognitionOptions) => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+export interface SpeakOptions {
+  language: string;
+  /** Null lets the engine choose a voice for the language. */
+  voice: SpeechVoice | null;
+  rate: number;
+  pitch: number;
+}
+
+export interface SpeechSynthesizer {
+  /** Resolves once the text has been spoken; rejects if speaking fails or is cancelled. */
+  speak: (text: string, options: SpeakOptions) => Promise<void>;
+  /** Stops speaking, rejecting whatever speak() is in progress. */
+  cancel: () => void;
+  getVoices: () => SpeechVoice[];
+  /** Calls the listener when voices load or change, returning a function that unsubscribes it. */
+  onVoicesChanged: (listener: () => void) => () => void;
+}
+
+/** Where the recorded-audio engine sends speech to be transcribed and text to be spoken. */
+export interface SpeechServerConfig {
+  /** Receives the recorded audio as the request body and answers with JSON like { "transcript": "..." }. */
+  transcriptionUrl: string;
+  /** Receives JSON like { "text", "language", "voice", "rate", "pitch" } and answers with audio. */
+  synthesisUrl: string;
+}
+
+export interface SpeechEngineSettings extends SpeechServerConfig {
+  /** The engine to use, or null to use the first one this browser supports. */
+  engineId: string | null;
+}
+
+export interface SpeechEngine {
+  id: string;
+  name: string;
+  description: string;
+  isSupported: (config: SpeechServerConfig) => boolean;
+  createRecognizer: (config: SpeechServerConfig) => SpeechRecognizer;
+  createSynthesizer: (config: SpeechServerConfig) => SpeechSynthesizer;
+}
+
+const SPEECH_ENGINE_PREFERENCE = 'speech-engine';
+
+export const DEFAULT_SPEECH_ENGINE_SETTINGS: SpeechEngineSettings = { engineId: null, transcriptionUrl: '', synthesisUrl: '' };
+
+export const loadSpeechEngineSettings = (): SpeechEngineSettings =>
+  ({ ...DEFAULT_SPEECH_ENGINE_SETTINGS, ...loadPreference<Partial<SpeechEngineSettings>>(SPEECH_ENGINE_PREFERENCE, {}) });
+
+export const saveSpeechEngineSettings = (settings: SpeechEngineSettings) => savePreference(SPEECH_ENGINE_PREFERENCE, settings);
+
+const engines = new Map<string, SpeechEngine>();
+
+export const registerSpeechEngine = (engine: SpeechEngine) => {
+  engines.set(engine.id, engine);
+};
+
+export const getSpeechEngines = (): SpeechEngine[] => Array.from(engines.values());
+
+/**
+ * The engine to use with these settings: the chosen one if this browser supports it, otherwise the first registered
+ * engine that it does. Null when none works, e.g. Firefox without a transcription endpoint configured.
+ */
+export const resolveSpeechEngine = (settings: SpeechEngineSettings): SpeechEngine | null => {
+  const chosen = settings.engineId ? engines.get(settings.engineId) : undefined;
+  if (chosen?.isSupported(settings)) return chosen;
+  return getSpeechEngines().find(engine => engine.isSupported(settings)) ?? null;
+};
+
+registerSpeechEngine(webSpeechEngine);
+registerSpeechEngine(recordedSpeechEngine);
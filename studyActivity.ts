@@ -0,0 +1,178 @@
+import { LearningMode } from '../types';
+import { PersonaId } from '../config/personaConfig';
+import { STORES, getAllRecords, putRecord, createRecordId } from './localDb';
+import { ReviewRating } from './flashcards';
+import { PageSpan } from './documentProcessor';
+
+/** Everything the learner does that counts towards their progress. */
+export type StudyActivity =
+  | { type: 'question_asked'; mode: LearningMode; persona?: PersonaId }
+  /** The best passage found for a question; a low score means the documents barely covered it. */
+  | { type: 'answer_retrieved'; query: string; documentKey: string; documentName: string; score: number; page?: number; pageKind?: PageSpan['kind'] }
+  | { type: 'document_studied'; documentKey: string; documentName: string; topics: string[] }
+  /** `round` is 2 and up for rounds retrying missed questions; events logged before rounds were recorded lack it. */
+  | { type: 'quiz_completed'; documentKey: string; documentName: string; round?: number; correct: number; total: number; missedQuestions: string[] }
+  | { type: 'flashcard_reviewed'; deckId: string; rating: ReviewRating };
+
+export type StudyEvent = StudyActivity & { id: string; at: number };
+
+export interface TopicMastery {
+  topic: string;
+  documentKeys: string[];
+  documentNames: string[];
+  /** Average quiz score (0-1) on the documents covering the topic; null until one of them has been quizzed. */
+  mastery: number | null;
+  quizzes: number;
+  /** Questions missed in the latest full quiz on the topic's documents that mention the topic. */
+  missedQuestions: string[];
+}
+
+export interface StudyProgress {
+  questionsByMode: Partial<Record<LearningMode, number>>;
+  questionsByPersona: Partial<Record<PersonaId, number>>;
+  documentsStudied: number;
+  quizScores: { at: number; documentName: string; score: number }[];
+  /** Share of flashcard reviews in the last 30 days that were not rated "again"; null without reviews. */
+  flashcardRetention: number | null;
+  flashcardReviews: number;
+  /** Consecutive days with any activity, ending today (or yesterday, if today has none yet). */
+  currentStreak: number;
+  longestStreak: number;
+  topics: TopicMastery[];
+  weakTopics: TopicMastery[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_WINDOW_DAYS = 30;
+// Topics scoring below this, or with missed questions about them, are reported as weak.
+export const WEAK_TOPIC_THRESHOLD = 0.7;
+
+export const recordStudyEvent = async (activity: StudyActivity): Promise<StudyEvent> => {
+  const event: StudyEvent = { ...activity, id: createRecordId('event'), at: Date.now() };
+  await putRecord(STORES.studyEvents, event);
+  return event;
+};
+
+/** Records an event without letting a storage failure interrupt the learner. */
+export const logStudyEvent = (activity: StudyActivity): void => {
+  recordStudyEvent(activity).catch(e => console.error("Failed to record study activity.", e));
+};
+
+export const listStudyEvents = async (): Promise<StudyEvent[]> => {
+  const events = await getAllRecords<StudyEvent>(STORES.studyEvents);
+  return events.sort((a, b) => a.at - b.at);
+};
+
+const dayNumber = (time: number) => {
+  const date = new Date(time);
+  return Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+};
+
+const computeStreaks = (events: StudyEvent[], now: number) => {
+  const days = [...new Set(events.map(event => dayNumber(event.at)))].sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && days[index - 1] === day - 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  const today = dayNumber(now);
+  const last = days[days.length - 1];
+  const current = last === today || last === today - 1 ? run : 0;
+  return { current, longest };
+};
+
+const topicTerms = (topic: string) => topic.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(term => term.length > 3);
+
+export const mentionsTopic = (text: string, topic: string) => {
+  const lower = text.toLowerCase();
+  const terms = topicTerms(topic);
+  return terms.length > 0 && terms.some(term => lower.includes(term));
+};
+
+/**
+ * Folds the event log into the dashboard's figures. Topics come from the overviews of studied documents; a
+ * topic's mastery is the average score of the latest full quiz on each document that covers it.
+ */
+export const computeStudyProgress = (events: StudyEvent[], now = Date.now()): StudyProgress => {
+  const questionsByMode: Partial<Record<LearningMode, number>> = {};
+  const questionsByPersona: Partial<Record<PersonaId, number>> = {};
+  const documents = new Map<string, { name: string; topics: string[] }>();
+  const latestQuiz = new Map<string, Extract<StudyEvent, { type: 'quiz_completed' }>>();
+  const quizzesByDocument = new Map<string, number>();
+  const quizScores: StudyProgress['quizScores'] = [];
+  let reviews = 0;
+  let recalled = 0;
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'question_asked':
+        questionsByMode[event.mode] = (questionsByMode[event.mode] ?? 0) + 1;
+        if (event.persona) questionsByPersona[event.persona] = (questionsByPersona[event.persona] ?? 0) + 1;
+        break;
+      case 'document_studied':
+        documents.set(event.documentKey, { name: event.documentName, topics: event.topics });
+        break;
+      case 'quiz_completed':
+        // Retry rounds only ask the questions missed before, so they don't count as a quiz of their own.
+        if (event.total === 0 || (event.round ?? 1) > 1) break;
+        latestQuiz.set(event.documentKey, event);
+        quizzesByDocument.set(event.documentKey, (quizzesByDocument.get(event.documentKey) ?? 0) + 1);
+        quizScores.push({ at: event.at, documentName: event.documentName, score: event.correct / event.total });
+        break;
+      case 'flashcard_reviewed':
+        if (now - event.at > RETENTION_WINDOW_DAYS * DAY_MS) break;
+        reviews++;
+        if (event.rating !== 'again') recalled++;
+        break;
+    }
+  }
+
+  const topicsByName = new Map<string, { topic: string; documentKeys: string[] }>();
+  documents.forEach(({ topics }, documentKey) => {
+    for (const topic of topics) {
+      const key = topic.trim().toLowerCase();
+      if (!key) continue;
+      const entry = topicsByName.get(key) ?? { topic: topic.trim(), documentKeys: [] };
+      entry.documentKeys.push(documentKey);
+      topicsByName.set(key, entry);
+    }
+  });
+
+  const topics: TopicMastery[] = [...topicsByName.values()].map(({ topic, documentKeys }) => {
+    // Only the latest quiz on each of the topic's own documents counts, so misses fade once the topic is learned
+    // and a shared word can't pull in another subject's misses.
+    const missedQuestions = documentKeys.flatMap(key => latestQuiz.get(key)?.missedQuestions ?? []);
+    const scores = documentKeys.flatMap(key => {
+      const quiz = latestQuiz.get(key);
+      return quiz ? [quiz.correct / quiz.total] : [];
+    });
+    return {
+      topic,
+      documentKeys,
+      documentNames: documentKeys.map(key => documents.get(key)!.name),
+      mastery: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null,
+      quizzes: documentKeys.reduce((sum, key) => sum + (quizzesByDocument.get(key) ?? 0), 0),
+      missedQuestions: [...new Set(missedQuestions.filter(question => mentionsTopic(question, topic)))],
+    };
+  });
+
+  const weakTopics = topics
+    .filter(topic => topic.mastery !== null && (topic.mastery < WEAK_TOPIC_THRESHOLD || topic.missedQuestions.length > 0))
+    .sort((a, b) => (a.mastery! - b.mastery!) || (b.missedQuestions.length - a.missedQuestions.length));
+
+  const streaks = computeStreaks(events, now);
+
+  return {
+    questionsByMode,
+    questionsByPersona,
+    documentsStudied: documents.size,
+    quizScores,
+    flashcardRetention: reviews > 0 ? recalled / reviews : null,
+    flashcardReviews: reviews,
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    topics: topics.sort((a, b) => a.topic.localeCompare(b.topic)),
+    weakTopics,
+  };
+};
@@ -0,0 +1,17 @@
+import { LearningMode, PanelConfig } from '../types';
+import { QuestionIcon } from '../components/common/Icon';
+
+// Flashcards reviews decks in its own panel rather than holding a conversation, so it has an id outside LearningMode.
+export const FLASHCARDS_MODE = 'Flashcards';
+
+/** A chat learning mode or the Flashcards mode. */
+export type StudyMode = LearningMode | typeof FLASHCARDS_MODE;
+
+/** What the mode tabs show for a mode. */
+export type ModeTabConfig = Pick<PanelConfig, 'title' | 'Icon'> & { mode: StudyMode };
+
+export const flashcardsModeConfig: ModeTabConfig = {
+  mode: FLASHCARDS_MODE,
+  title: 'Flashcards',
+  Icon: QuestionIcon,
+};
@@ -0,0 +1,118 @@
+import { LearningMode, Persona } from '../types';
+import { personaConfigs } from '../config/personaConfig';
+import { formatPageReference } from './citations';
+import { StudyEvent, StudyProgress, TopicMastery, mentionsTopic } from './studyActivity';
+
+export interface StudyRecommendation {
+  id: string;
+  title: string;
+  reason: string;
+  /** Where following the suggestion takes the learner; the document and persona are preselected there. */
+  mode: LearningMode;
+  persona?: Persona;
+  documentKey?: string;
+  documentName?: string;
+}
+
+type RetrievalEvent = Extract<StudyEvent, { type: 'answer_retrieved' }>;
+
+// Retrieval scores below this mean the best passage only loosely matched the question.
+const LOW_CONFIDENCE_SCORE = 0.55;
+// Below this share of questions, a persona counts as one the learner hasn't really tried.
+const UNDERUSED_PERSONA_SHARE = 0.2;
+const MAX_RECOMMENDATIONS = 5;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const reviewTopic = (topic: TopicMastery, retrievals: RetrievalEvent[]): StudyRecommendation => {
+  const documentKey = topic.documentKeys[0];
+  const documentName = topic.documentNames[0];
+  // The page that answered the learner's latest question about the topic is the best place to send them back to.
+  const retrieval = [...retrievals].reverse().find(event => event.documentKey === documentKey && event.page !== undefined && mentionsTopic(event.query, topic.topic));
+  const missed = topic.missedQuestions.length;
+  return {
+    id: `review:${topic.topic}`,
+    title: retrieval
+      ? `Review ${formatPageReference(retrieval.page, retrieval.pageKind)} of ${documentName}`
+      : `Review "${topic.topic}" in ${documentName}`,
+    reason: missed > 0
+      ? `You missed ${missed} quiz question${missed === 1 ? '' : 's'} on ${topic.topic}, including "${topic.missedQuestions[0]}"`
+      : `Your quiz score on ${topic.topic} is ${formatPercent(topic.mastery ?? 0)}`,
+    mode: LearningMode.KnowledgeBase,
+    documentKey,
+    documentName,
+  };
+};
+
+const personaSession = (topic: TopicMastery, progress: StudyProgress): StudyRecommendation | null => {
+  const total = Object.values(progress.questionsByPersona).reduce<number>((sum, count) => sum + (count ?? 0), 0);
+  const share = (persona: Persona) => (total > 0 ? (progress.questionsByPersona[persona] ?? 0) / total : 0);
+  const base = { mode: LearningMode.KnowledgeBase, documentKey: topic.documentKeys[0], documentName: topic.documentNames[0] };
+
+  if (share(Persona.Socratic) < UNDERUSED_PERSONA_SHARE) {
+    return {
+      ...base,
+      id: `persona:${Persona.Socratic}:${topic.topic}`,
+      title: `Try a Socratic session on ${topic.topic}`,
+      reason: 'Reasoning your way to the answers tends to stick better for topics you keep missing.',
+      persona: Persona.Socratic,
+    };
+  }
+  if ((topic.mastery ?? 1) < 0.5 && share(Persona.Simple) < UNDERUSED_PERSONA_SHARE) {
+    return {
+      ...base,
+      id: `persona:${Persona.Simple}:${topic.topic}`,
+      title: `Go back to basics on ${topic.topic}`,
+      reason: `The ${personaConfigs[Persona.Simple].name} persona explains ${topic.topic} from first principles.`,
+      persona: Persona.Simple,
+    };
+  }
+  return null;
+};
+
+/**
+ * Suggests next steps from the event log: revisiting weak topics, switching to a persona that suits them,
+ * following up questions the documents answered poorly, and quizzing documents that have never been tested.
+ */
+export const recommendStudySteps = (events: StudyEvent[], progress: StudyProgress): StudyRecommendation[] => {
+  const retrievals = events.filter((event): event is RetrievalEvent => event.type === 'answer_retrieved');
+  const recommendations: StudyRecommendation[] = [];
+
+  progress.weakTopics.slice(0, 3).forEach(topic => recommendations.push(reviewTopic(topic, retrievals)));
+
+  const weakest = progress.weakTopics[0];
+  const persona = weakest && personaSession(weakest, progress);
+  if (persona) recommendations.push(persona);
+
+  // Only the latest weak match per document, so one vague question doesn't crowd out everything else.
+  const lowConfidence = new Map<string, RetrievalEvent>();
+  retrievals.forEach(event => {
+    if (event.score < LOW_CONFIDENCE_SCORE) lowConfidence.set(event.documentKey, event);
+    else if (lowConfidence.get(event.documentKey)?.query === event.query) lowConfidence.delete(event.documentKey);
+  });
+  lowConfidence.forEach(event => recommendations.push({
+    id: `retrieval:${event.documentKey}`,
+    title: `Dig deeper into "${event.query}"`,
+    reason: `The best passage in ${event.documentName} only matched ${formatPercent(event.score)}. Try a more specific question, or add a document that covers it.`,
+    mode: LearningMode.KnowledgeBase,
+    documentKey: event.documentKey,
+    documentName: event.documentName,
+  }));
+
+  const quizzed = new Set(events.flatMap(event => (event.type === 'quiz_completed' ? [event.documentKey] : [])));
+  events.forEach(event => {
+    if (event.type !== 'document_studied' || quizzed.has(event.documentKey)) return;
+    quizzed.add(event.documentKey);
+    recommendations.push({
+      id: `quiz:${event.documentKey}`,
+      title: `Quiz yourself on ${event.documentName}`,
+      reason: 'You have studied it but not tested yourself on it yet.',
+      mode: LearningMode.Quiz,
+      documentKey: event.documentKey,
+      documentName: event.documentName,
+    });
+  });
+
+  const seen = new Set<string>();
+  return recommendations.filter(recommendation => !seen.has(recommendation.id) && !!seen.add(recommendation.id)).slice(0, MAX_RECOMMENDATIONS);
+};
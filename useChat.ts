@@ -1,9 +1,66 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { ChatMessage, LearningMode, GeminiInput, FileProcessingProgress, Persona, SourcedContent, DocumentOverviewData } from '../types';
 import * as geminiService from '../services/geminiService';
-import { VectorStore } from '../lib/vectorStore';
-import { processFile } from '../lib/documentProcessor';
-import { personaConfigs } from '../config/personaConfig';
+import { SerializedVectorStore } from '../lib/vectorStore';
+import {
+  computeContentHash, loadCachedIndex, cacheIndex, deleteCachedIndex,
+  loadIngestionCheckpoint, saveIngestionCheckpoint, clearIngestionCheckpoint,
+} from '../lib/vectorStoreCache';
+import { ChunkingOptions, DEFAULT_CHUNKING, getChunkingKey } from '../lib/chunking';
+import { DEFAULT_EMBEDDING_PROVIDER_ID, getEmbeddingProvider } from '../lib/embeddingProviders';
+import { loadPreference, savePreference } from '../lib/preferences';
+import {
+  KnowledgeDocument, listKnowledgeDocuments, saveKnowledgeDocument, deleteKnowledgeDocument, createDocumentId,
+  saveDocumentFile, loadDocumentFile, deleteDocumentFile,
+} from '../lib/knowledgeBase';
+import { PageSpan } from '../lib/documentProcessor';
+import { WorkerVectorStore, extractDocument, indexDocument } from '../lib/ingestionWorkerClient';
+import { CitedContext, DocumentCitation, CITATION_INSTRUCTION, buildCitedContext, formatPageReference } from '../lib/citations';
+import { ADAPTIVE_PERSONA_ID, PersonaId, getPersonaConfig } from '../config/personaConfig';
+import { FLASHCARDS_MODE, StudyMode } from '../config/studyModes';
+import { isAbortError, throwIfAborted } from '../lib/retry';
+import { StreamOptions, streamAnswer, streamAnswerFromContext } from '../lib/geminiStream';
+import { QuizSource } from '../lib/quizSession';
+import { QuizOptions, generateQuizWithOptions } from '../lib/quizGeneration';
+import {
+  ConversationSummary, buildConversationMemory, rewriteAsStandaloneQuery, toConversationTurns, withConversation,
+} from '../lib/conversationMemory';
+import {
+  ChatSession, listChatSessions, saveChatSession, deleteChatSession as deleteStoredChatSession,
+  createSessionId, defaultSessionName, importChatSession as parseChatSession, sessionQuizSources,
+} from '../lib/chatSessions';
+import { logStudyEvent } from '../lib/studyActivity';
+import { StudyRecommendation } from '../lib/studyRecommendations';
+import { AdaptiveState, LearnerSignal, INITIAL_ADAPTIVE_STATE, applyLearnerSignal } from '../lib/adaptivePersona';
+
+// Shown next to document citations so students can judge how well a passage matched.
+const formatConfidence = (score: number) => `${Math.round(score * 100)}% match`;
+const formatSourceTitle = (score: number, citation: DocumentCitation) =>
+  [`From "${citation.documentName}"`, formatPageReference(citation.page, citation.pageKind), formatConfidence(score)].filter(Boolean).join(' · ');
+
+const QA_DOCUMENT_ID = 'qa-document';
+const EMBEDDING_PROVIDER_PREFERENCE = 'embedding-provider';
+// Sessions are saved shortly after the conversation settles rather than on every message.
+const SESSION_SAVE_DELAY_MS = 1000;
+
+// A streamed answer is added as soon as it starts, often within the same millisecond as the question.
+let nextMessageId = 0;
+const createMessageId = () => `${Date.now()}-${nextMessageId++}`;
+
+export interface OpenCitation {
+  file: Blob;
+  fileName: string;
+  page: number;
+  /** The cited passage, relative to the start of the page's text. */
+  highlight?: { start: number; end: number };
+}
+
+/** Passages found for a question, with what the study log records about the best match. */
+interface DocumentSearchResult extends CitedContext {
+  /** Content hash of the document the best passage came from. */
+  topDocumentKey: string;
+  topScore: number;
+}
 
 const personaEnabledModes = [
   LearningMode.QA,
@@ -14,34 +71,168 @@ const personaEnabledModes = [
 export const useChat = () => {
   const [messagesByMode, setMessagesByMode] = useState<Record<string, ChatMessage[]>>({});
   const [activeMode, setActiveMode] = useState<LearningMode>(LearningMode.KnowledgeBase);
-  const [activePersona, setActivePersona] = useState<Persona>(Persona.Default);
+  // Flashcards has no conversation; while it is open the chat stays in activeMode underneath.
+  const [isFlashcardsOpen, setIsFlashcardsOpen] = useState(false);
+  const [activePersona, setActivePersona] = useState<PersonaId>(Persona.Default);
+  // The level the Adaptive persona is currently teaching at; read synchronously so a signal can change the next answer.
+  const adaptiveStateRef = useRef<AdaptiveState>(INITIAL_ADAPTIVE_STATE);
+  const [adaptiveLevel, setAdaptiveLevel] = useState<Persona>(INITIAL_ADAPTIVE_STATE.level);
   const [isLoading, setIsLoading] = useState(false);
-  const [vectorStore, setVectorStore] = useState<VectorStore | null>(null);
-  const [qaDocument, setQaDocument] = useState<{ store: VectorStore, overviewData: DocumentOverviewData, fullText: string } | null>(null);
+  // One shared index holds every Knowledge Base document; entries are tagged with their document id.
+  const knowledgeStoreRef = useRef(new WorkerVectorStore());
+  const [knowledgeDocuments, setKnowledgeDocuments] = useState<KnowledgeDocument[]>([]);
+  const [selectedDocumentIds, setSelectedDocumentIds] = useState<string[]>([]);
+  const [embeddingProviderId, setEmbeddingProviderId] = useState(() => loadPreference(EMBEDDING_PROVIDER_PREFERENCE, DEFAULT_EMBEDDING_PROVIDER_ID));
+  const [qaDocument, setQaDocument] = useState<{ store: WorkerVectorStore, overviewData: DocumentOverviewData, fullText: string, file: File, pages: PageSpan[], contentHash: string } | null>(null);
+  const [openCitation, setOpenCitation] = useState<OpenCitation | null>(null);
   const [isProcessingFile, setIsProcessingFile] = useState(false);
   const [fileProcessingProgress, setFileProcessingProgress] = useState<FileProcessingProgress | null>(null);
+  const fileProcessingAbortRef = useRef<AbortController | null>(null);
+  const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
+  // The saved session each mode's conversation belongs to; a mode has none until its first question or answer.
+  const [activeSessionIds, setActiveSessionIds] = useState<Record<string, string | undefined>>({});
+  // Running summaries of older turns per mode, extended as conversations outgrow the memory budget.
+  const conversationSummariesRef = useRef<Record<string, ConversationSummary | null>>({});
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  // The document each quiz message was generated from, by message id, so a quiz session can group its results
+  // and ground its explanations in the text. Saved sessions keep the reference but not the text.
+  const [quizSources, setQuizSources] = useState<Record<string, QuizSource>>({});
 
+  // Messages go to the active mode unless they name another one, e.g. when switching modes in the same step.
   const addMessage = useCallback((message: Omit<ChatMessage, 'id'>) => {
+    const id = createMessageId();
+    const mode = message.mode ?? activeMode;
     setMessagesByMode(prev => {
-      const currentMessages = prev[activeMode] || [];
+      const currentMessages = prev[mode] || [];
       return {
         ...prev,
-        [activeMode]: [...currentMessages, { ...message, id: Date.now().toString() }],
+        [mode]: [...currentMessages, { ...message, id }],
       };
     });
+    if (message.sender !== 'system') {
+      setActiveSessionIds(prev => (prev[mode] ? prev : { ...prev, [mode]: createSessionId() }));
+    }
+    return id;
   }, [activeMode]);
 
+  // Replaces a message's content, or removes the message when given null.
+  const updateMessage = useCallback((mode: LearningMode, messageId: string, content: ChatMessage['content'] | null) => {
+    setMessagesByMode(prev => ({
+      ...prev,
+      [mode]: content === null
+        ? (prev[mode] || []).filter(m => m.id !== messageId)
+        : (prev[mode] || []).map(m => (m.id === messageId ? { ...m, content } : m)),
+    }));
+  }, []);
+
+  const stopGenerating = useCallback(() => {
+    generationAbortRef.current?.abort();
+  }, []);
+
+  // The quiz and its source are added together so the session saved next includes both.
+  const addQuizMessage = useCallback(async (quiz: ChatMessage['content'], mode: LearningMode, documentName: string, text: string) => {
+    const source: QuizSource = { documentKey: await computeContentHash(text), documentName, text };
+    const messageId = addMessage({ sender: 'ai', content: quiz, mode });
+    setQuizSources(prev => ({ ...prev, [messageId]: source }));
+  }, [addMessage]);
+
+  const getQuizSource = useCallback((messageId: string): QuizSource | null => quizSources[messageId] ?? null, [quizSources]);
+
+  // Restore the Knowledge Base library from the local cache so it survives a page reload.
+  useEffect(() => {
+    let cancelled = false;
+
+    const restoreLibrary = async () => {
+      const documents = await listKnowledgeDocuments();
+      const restored: KnowledgeDocument[] = [];
+      for (const document of documents) {
+        const cached = await loadCachedIndex(document.indexKey);
+        if (cancelled) return;
+        // Documents split with a custom chunker have no cached index, so they don't outlive the session.
+        if (!cached) {
+          await deleteKnowledgeDocument(document.id);
+          await deleteDocumentFile(document.id);
+          continue;
+        }
+        try {
+          await knowledgeStoreRef.current.importDocument(document.id, cached);
+          restored.push(document);
+        } catch (e) {
+          console.error(`Skipped "${document.displayName}": its embeddings don't match the rest of the library.`, e);
+        }
+      }
+      if (cancelled || restored.length === 0) return;
+
+      // The Knowledge Base is locked to the provider its documents were embedded with.
+      setEmbeddingProviderId(restored[0].embeddingProviderId ?? DEFAULT_EMBEDDING_PROVIDER_ID);
+      setKnowledgeDocuments(restored);
+      setMessagesByMode(prev => ({
+        ...prev,
+        [LearningMode.KnowledgeBase]: [
+          ...(prev[LearningMode.KnowledgeBase] || []).filter(m => (m.content as any)?.type !== 'knowledge_upload'),
+          { id: 'kb-restored', sender: 'system', content: `Restored ${restored.length} document(s) from your library.` },
+        ],
+      }));
+    };
+
+    restoreLibrary().catch(e => console.error("Failed to restore the Knowledge Base library.", e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    listChatSessions()
+      .then(setChatSessions)
+      .catch(e => console.error("Failed to load saved chat sessions.", e));
+  }, []);
+
+  // Save each mode's conversation to its session, once it holds more than system notices.
+  useEffect(() => {
+    const pendingSessions: ChatSession[] = [];
+    Object.entries(messagesByMode).forEach(([mode, messages]) => {
+      const sessionId = activeSessionIds[mode];
+      if (!sessionId || !messages.some(m => m.sender !== 'system')) return;
+      const existing = chatSessions.find(s => s.id === sessionId);
+      if (existing?.messages === messages) return;
+      pendingSessions.push({
+        id: sessionId,
+        mode: mode as LearningMode,
+        name: existing?.name ?? defaultSessionName(messages),
+        messages,
+        quizSources: sessionQuizSources(messages, quizSources),
+        createdAt: existing?.createdAt ?? Date.now(),
+        updatedAt: Date.now(),
+      });
+    });
+    if (pendingSessions.length === 0) return;
+
+    const timer = setTimeout(() => {
+      const savedIds = new Set(pendingSessions.map(s => s.id));
+      setChatSessions(prev => [...pendingSessions, ...prev.filter(s => !savedIds.has(s.id))]);
+      pendingSessions.forEach(session => {
+        saveChatSession(session).catch(e => console.error("Failed to save the chat session.", e));
+      });
+    }, SESSION_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [messagesByMode, activeSessionIds, chatSessions, quizSources]);
+
+  // Free a replaced or cleared Q&A document's index in the worker.
+  useEffect(() => () => {
+    qaDocument?.store.dispose().catch(e => console.error("Failed to release the Q&A document index.", e));
+  }, [qaDocument]);
+
   const clearChat = useCallback(() => {
-    if (activeMode === LearningMode.KnowledgeBase) {
-      setVectorStore(null);
-    }
     if (activeMode === LearningMode.QA) {
       setQaDocument(null);
     }
     
     const initialMessages: ChatMessage[] = [];
     
-    if (activeMode === LearningMode.KnowledgeBase) {
+    // The Knowledge Base library outlives the conversation; it is managed per document instead.
+    if (activeMode === LearningMode.KnowledgeBase && knowledgeDocuments.length === 0) {
         initialMessages.push({
             id: 'upload-prompt-after-clear',
             sender: 'system',
@@ -56,10 +247,59 @@ export const useChat = () => {
     }
 
     setMessagesByMode(prev => ({ ...prev, [activeMode]: initialMessages }));
-  }, [activeMode]);
+    // The cleared conversation stays in the history; the next message starts a new session.
+    setActiveSessionIds(prev => ({ ...prev, [activeMode]: undefined }));
+  }, [activeMode, knowledgeDocuments]);
 
-  const selectMode = useCallback((newMode: LearningMode) => {
-    if (newMode === activeMode) return;
+  const loadChatSession = useCallback((sessionId: string) => {
+    const session = chatSessions.find(s => s.id === sessionId);
+    if (!session) return;
+    setActiveMode(session.mode);
+    setIsFlashcardsOpen(false);
+    setMessagesByMode(prev => ({ ...prev, [session.mode]: session.messages }));
+    // Sources still in memory keep their text.
+    setQuizSources(prev => ({ ...session.quizSources, ...prev }));
+    setActiveSessionIds(prev => ({ ...prev, [session.mode]: session.id }));
+  }, [chatSessions]);
+
+  const renameChatSession = useCallback(async (sessionId: string, name: string) => {
+    const session = chatSessions.find(s => s.id === sessionId);
+    const trimmedName = name.trim();
+    if (!session || !trimmedName) return;
+
+    const renamed = { ...session, name: trimmedName };
+    setChatSessions(prev => prev.map(s => (s.id === sessionId ? renamed : s)));
+    await saveChatSession(renamed).catch(e => console.error("Failed to save the renamed session.", e));
+  }, [chatSessions]);
+
+  const deleteChatSession = useCallback(async (sessionId: string) => {
+    setChatSessions(prev => prev.filter(s => s.id !== sessionId));
+    setActiveSessionIds(prev => {
+      const mode = Object.keys(prev).find(m => prev[m] === sessionId);
+      return mode ? { ...prev, [mode]: undefined } : prev;
+    });
+    await deleteStoredChatSession(sessionId).catch(e => console.error("Failed to delete the chat session.", e));
+  }, []);
+
+  const importChatSession = useCallback(async (file: File) => {
+    try {
+      const session = parseChatSession(await file.text(), file.name);
+      await saveChatSession(session);
+      setChatSessions(prev => [session, ...prev]);
+      setActiveMode(session.mode);
+      setIsFlashcardsOpen(false);
+      setMessagesByMode(prev => ({ ...prev, [session.mode]: session.messages }));
+      setQuizSources(prev => ({ ...session.quizSources, ...prev }));
+      setActiveSessionIds(prev => ({ ...prev, [session.mode]: session.id }));
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : "The file could not be read.";
+      addMessage({ sender: 'system', content: `Could not import "${file.name}". ${errorMessage}` });
+    }
+  }, [addMessage]);
+
+  const selectMode = useCallback((newMode: StudyMode) => {
+    setIsFlashcardsOpen(newMode === FLASHCARDS_MODE);
+    if (newMode === FLASHCARDS_MODE || newMode === activeMode) return;
     
     setActiveMode(newMode);
     
@@ -69,7 +309,7 @@ export const useChat = () => {
         }
         
         const newModeMessages: ChatMessage[] = [];
-        if (newMode === LearningMode.KnowledgeBase && !vectorStore) {
+        if (newMode === LearningMode.KnowledgeBase && knowledgeDocuments.length === 0) {
             newModeMessages.push({
                 id: 'upload-prompt-on-select',
                 sender: 'system',
@@ -78,16 +318,113 @@ export const useChat = () => {
         }
         return { ...prev, [newMode]: newModeMessages };
     });
-  }, [activeMode, vectorStore]);
+  }, [activeMode, knowledgeDocuments]);
 
-  const selectPersona = useCallback((newPersona: Persona) => {
+  const selectPersona = useCallback((newPersona: PersonaId, mode: LearningMode = activeMode) => {
     if (newPersona === activePersona) return;
     setActivePersona(newPersona);
-    const personaName = personaConfigs[newPersona].name;
-    addMessage({ sender: 'system', content: `Switched to ${personaName} persona.` });
+    if (newPersona === ADAPTIVE_PERSONA_ID) {
+      adaptiveStateRef.current = INITIAL_ADAPTIVE_STATE;
+      setAdaptiveLevel(INITIAL_ADAPTIVE_STATE.level);
+    }
+    const personaName = getPersonaConfig(newPersona).name;
+    addMessage({ sender: 'system', content: `Switched to ${personaName} persona.`, mode });
+  }, [activeMode, activePersona, addMessage]);
+
+  /**
+   * Feeds quiz answers and learner messages to the Adaptive persona, returning the level to answer at.
+   * Other personas ignore signals.
+   */
+  const recordLearnerSignal = useCallback((signal: LearnerSignal): Persona => {
+    const previous = adaptiveStateRef.current;
+    if (activePersona !== ADAPTIVE_PERSONA_ID) return previous.level;
+    const next = applyLearnerSignal(previous, signal);
+    adaptiveStateRef.current = next;
+    if (next.level !== previous.level) {
+      setAdaptiveLevel(next.level);
+      const levelName = getPersonaConfig(next.level).name;
+      addMessage({ sender: 'system', content: `Adaptive persona switched to the ${levelName} level.` });
+    }
+    return next.level;
   }, [activePersona, addMessage]);
 
-  const handleFileUpload = useCallback(async (file: File) => {
+  const followRecommendation = useCallback((recommendation: StudyRecommendation) => {
+    const { mode, persona, documentKey, documentName } = recommendation;
+    selectMode(mode);
+    if (persona) selectPersona(persona, mode);
+
+    const libraryDocument = documentKey ? knowledgeDocuments.find(d => d.contentHash === documentKey) : undefined;
+    const isLoaded = mode === LearningMode.KnowledgeBase ? !!libraryDocument : qaDocument?.contentHash === documentKey;
+    if (libraryDocument && mode === LearningMode.KnowledgeBase) {
+      setSelectedDocumentIds([libraryDocument.id]);
+    }
+    addMessage({
+      sender: 'system',
+      content: documentKey && !isLoaded
+        ? `Next step: ${recommendation.title}. Upload "${documentName}" to get started.`
+        : `Next step: ${recommendation.title}.`,
+      mode,
+    });
+  }, [knowledgeDocuments, qaDocument, selectMode, selectPersona, addMessage]);
+
+  const renameKnowledgeDocument = useCallback(async (documentId: string, displayName: string) => {
+    const document = knowledgeDocuments.find(d => d.id === documentId);
+    const trimmedName = displayName.trim();
+    if (!document || !trimmedName) return;
+
+    const renamed = { ...document, displayName: trimmedName };
+    setKnowledgeDocuments(prev => prev.map(d => (d.id === documentId ? renamed : d)));
+    await saveKnowledgeDocument(renamed).catch(e => console.error("Failed to save the renamed document.", e));
+  }, [knowledgeDocuments]);
+
+  const removeKnowledgeDocument = useCallback(async (documentId: string) => {
+    const document = knowledgeDocuments.find(d => d.id === documentId);
+    if (!document) return;
+
+    knowledgeStoreRef.current.removeDocument(documentId).catch(e => console.error("Failed to remove the document from the search index.", e));
+    setKnowledgeDocuments(prev => prev.filter(d => d.id !== documentId));
+    setSelectedDocumentIds(prev => prev.filter(id => id !== documentId));
+    addMessage({ sender: 'system', content: `Removed "${document.displayName}" from the Knowledge Base.` });
+
+    try {
+      await deleteKnowledgeDocument(documentId);
+      await deleteCachedIndex(document.indexKey);
+      await deleteDocumentFile(documentId);
+    } catch (e) {
+      console.error("Failed to delete the document from local storage.", e);
+    }
+  }, [knowledgeDocuments, addMessage]);
+
+  const selectEmbeddingProvider = useCallback((providerId: string) => {
+    if (providerId === embeddingProviderId) return;
+    if (knowledgeDocuments.length > 0) {
+      addMessage({
+        sender: 'system',
+        content: `The Knowledge Base was built with ${getEmbeddingProvider(embeddingProviderId).name} embeddings. Remove its documents before switching providers.`,
+      });
+      return;
+    }
+    setEmbeddingProviderId(providerId);
+    savePreference(EMBEDDING_PROVIDER_PREFERENCE, providerId);
+    addMessage({ sender: 'system', content: `New documents will be embedded with ${getEmbeddingProvider(providerId).name}.` });
+  }, [embeddingProviderId, knowledgeDocuments, addMessage]);
+
+  const toggleDocumentSelection = useCallback((documentId: string) => {
+    setSelectedDocumentIds(prev => (
+      prev.includes(documentId) ? prev.filter(id => id !== documentId) : [...prev, documentId]
+    ));
+  }, []);
+
+  const cancelFileProcessing = useCallback(() => {
+    fileProcessingAbortRef.current?.abort();
+  }, []);
+
+  const handleFileUpload = useCallback(async (file: File, options: { chunking?: ChunkingOptions, quiz?: QuizOptions } = {}) => {
+    fileProcessingAbortRef.current?.abort();
+    const abortController = new AbortController();
+    fileProcessingAbortRef.current = abortController;
+    const { signal } = abortController;
+
     if (activeMode === LearningMode.Quiz) {
         setIsProcessingFile(true);
         setFileProcessingProgress({ stage: `Preparing "${file.name}"...`, percentage: 0 });
@@ -96,19 +433,34 @@ export const useChat = () => {
 
         try {
             setFileProcessingProgress({ stage: 'Extracting text from document...', percentage: 25 });
-            const text = await processFile(file);
+            const { text } = await extractDocument(file, {
+              onProgress: (progress) => setFileProcessingProgress({
+                stage: progress.stage,
+                percentage: 25 + Math.round(progress.percentage * 0.50)
+              }),
+              signal,
+            });
             if (!text || text.trim().length < 10) {
               throw new Error("Could not extract sufficient text from the document.");
             }
             
             setFileProcessingProgress({ stage: 'Generating quiz questions...', percentage: 75 });
-            const quizData = await geminiService.generateQuiz({ text });
+            const quizData = await generateQuizWithOptions(text, options.quiz);
+            if (signal.aborted) {
+              addMessage({ sender: 'system', content: `Quiz generation for "${file.name}" was cancelled.` });
+              return;
+            }
             
-            addMessage({ sender: 'ai', content: quizData, mode: activeMode });
+            await addQuizMessage(quizData, activeMode, file.name, text);
         } catch (e) {
+            if (isAbortError(e)) {
+              addMessage({ sender: 'system', content: `Quiz generation for "${file.name}" was cancelled.` });
+              return;
+            }
             const errorMessage = e instanceof Error ? e.message : "An unknown error occurred during processing.";
             addMessage({ sender: 'ai', content: `Error: Failed to generate quiz. ${errorMessage}` });
         } finally {
+            if (fileProcessingAbortRef.current === abortController) fileProcessingAbortRef.current = null;
             setIsProcessingFile(false);
             setFileProcessingProgress(null);
         }
@@ -123,41 +475,134 @@ export const useChat = () => {
     setMessagesByMode(prev => {
         const currentMessages = prev[activeMode] || [];
         // Clear previous upload prompts and existing document overviews
+        // The Knowledge Base keeps one overview per document in its library
         return {
             ...prev,
             [activeMode]: currentMessages.filter(m => {
                 if (m.sender !== 'system' && m.sender !== 'ai') return true;
                 if (typeof m.content !== 'object' || m.content === null) return true;
                 const contentType = (m.content as any).type;
-                return contentType !== 'knowledge_upload' && contentType !== 'document_overview';
+                if (contentType === 'document_overview') return activeMode === LearningMode.KnowledgeBase;
+                return contentType !== 'knowledge_upload';
             })
         };
     });
-    
+    // Whether embeddings from this or an earlier attempt are saved, so uploading again would resume.
+    let hasCheckpoint = false;
+
     try {
-        setFileProcessingProgress({ stage: 'Extracting text from document...', percentage: 15 });
-        const text = await processFile(file);
+        setFileProcessingProgress({ stage: 'Extracting text from document...', percentage: 0 });
+        const { text, pages, suggestedChunking } = await extractDocument(file, {
+          onProgress: (progress) => setFileProcessingProgress({
+            stage: progress.stage,
+            percentage: Math.round(progress.percentage * 0.15) // Extraction takes the first 15%
+          }),
+          signal,
+        });
         if (!text || text.trim().length < 10) {
           throw new Error("Could not extract sufficient text from the document.");
         }
         
-        const newVectorStore = new VectorStore();
-        await newVectorStore.create(text, geminiService.embedContent, (progress) => {
-          setFileProcessingProgress({
-            stage: progress.stage,
-            percentage: 15 + Math.round(progress.percentage * 0.80) // Embeddings take 80% of time
+        // Identical text yields an identical index, so a cached one skips embedding entirely.
+        const contentHash = await computeContentHash(text);
+        if (activeMode === LearningMode.KnowledgeBase) {
+          const existing = knowledgeDocuments.find(d => d.contentHash === contentHash);
+          if (existing) {
+            addMessage({ sender: 'system', content: `"${file.name}" is already in your library as "${existing.displayName}".` });
+            return;
+          }
+        }
+
+        const chunking = options.chunking ?? suggestedChunking ?? DEFAULT_CHUNKING;
+        const chunkingKey = getChunkingKey(chunking);
+        // A custom chunker can't be identified across uploads, so its index lives only in memory for this session.
+        const indexKey = `${contentHash}:${embeddingProviderId}:${chunkingKey ?? `custom-${Date.now()}`}`;
+        const cached = chunkingKey
+          ? await loadCachedIndex(indexKey).catch(e => {
+              console.error("Failed to read the embedding cache.", e);
+              return null;
+            })
+          : null;
+
+        let index: SerializedVectorStore;
+        if (cached) {
+          setFileProcessingProgress({ stage: 'Loaded embeddings from local cache.', percentage: 95 });
+          index = cached;
+        } else {
+          // A previous upload of the same document that failed or was cancelled resumes where it stopped.
+          const checkpoint = chunkingKey
+            ? await loadIngestionCheckpoint(indexKey).catch(e => {
+                console.error("Failed to read the ingestion checkpoint.", e);
+                return [];
+              })
+            : [];
+          hasCheckpoint = checkpoint.length > 0;
+          index = await indexDocument(text, getEmbeddingProvider(embeddingProviderId), {
+            onProgress: (progress) => {
+              setFileProcessingProgress({
+                stage: progress.stage,
+                percentage: 15 + Math.round(progress.percentage * 0.80) // Embeddings take 80% of time
+              });
+            },
+            chunking,
+            signal,
+            resumeFrom: checkpoint,
+            onBatchComplete: chunkingKey
+              ? (entries, firstIndex) => saveIngestionCheckpoint(indexKey, entries, firstIndex).then(
+                  () => { hasCheckpoint = true; },
+                  e => console.error("Failed to save the ingestion checkpoint.", e),
+                )
+              : undefined,
           });
-        });
+          if (chunkingKey) {
+            await cacheIndex(indexKey, file.name, index).catch(e => {
+              console.error("Failed to write the embedding cache.", e);
+            });
+            await clearIngestionCheckpoint(indexKey).catch(e => {
+              console.error("Failed to clear the ingestion checkpoint.", e);
+            });
+          }
+        }
+
+        throwIfAborted(signal);
 
         setFileProcessingProgress({ stage: 'Generating document overview...', percentage: 95 });
         const textSample = text.length > 4000 ? text.substring(0, 4000) : text;
         const overviewData = await geminiService.generateDocumentOverview(textSample);
+        throwIfAborted(signal);
         const fullOverviewData = { ...overviewData, fileName: file.name };
 
         if (activeMode === LearningMode.KnowledgeBase) {
-            setVectorStore(newVectorStore);
+            const document: KnowledgeDocument = {
+              id: createDocumentId(),
+              fileName: file.name,
+              displayName: file.name,
+              contentHash,
+              indexKey,
+              chunking: chunkingKey ?? 'custom',
+              embeddingProviderId,
+              chunkCount: index.entries.length,
+              pages,
+              addedAt: Date.now(),
+            };
+            await knowledgeStoreRef.current.importDocument(document.id, index);
+            setKnowledgeDocuments(prev => [...prev, document]);
+            try {
+              await saveKnowledgeDocument(document);
+              await saveDocumentFile(document.id, file);
+            } catch (e) {
+              console.error("Failed to save the document to the library.", e);
+            }
         } else if (activeMode === LearningMode.QA) {
-            setQaDocument({ store: newVectorStore, overviewData: fullOverviewData, fullText: text });
+            const store = await WorkerVectorStore.deserialize(index, QA_DOCUMENT_ID);
+            setQaDocument({
+              store,
+              overviewData: fullOverviewData,
+              fullText: text,
+              file,
+              pages,
+              contentHash,
+            });
         }
 
         addMessage({
@@ -168,85 +613,169 @@ export const useChat = () => {
           },
           mode: activeMode,
         });
+        logStudyEvent({ type: 'document_studied', documentKey: contentHash, documentName: file.name, topics: fullOverviewData.keyTopics });
 
     } catch (e) {
+        if (isAbortError(e)) {
+          const resumeHint = hasCheckpoint ? ' Upload it again to continue where it stopped.' : '';
+          addMessage({ sender: 'system', content: `Processing of "${file.name}" was cancelled.${resumeHint}` });
+          return;
+        }
         const errorMessage = e instanceof Error ? e.message : "An unknown error occurred during processing.";
-        addMessage({ sender: 'ai', content: `Error: Failed to process document. ${errorMessage}` });
+        const resumeHint = hasCheckpoint ? ' The embeddings already computed were saved, so uploading it again will resume.' : '';
+        addMessage({ sender: 'ai', content: `Error: Failed to process document. ${errorMessage}${resumeHint}` });
     } finally {
+        if (fileProcessingAbortRef.current === abortController) fileProcessingAbortRef.current = null;
         setIsProcessingFile(false);
         setFileProcessingProgress(null);
     }
-  }, [activeMode, addMessage]);
+  }, [activeMode, knowledgeDocuments, embeddingProviderId, addMessage, addQuizMessage]);
 
-  const generateQuizFromQADocument = useCallback(async () => {
+  const generateQuizFromQADocument = useCallback(async (quizOptions: QuizOptions = {}) => {
     if (activeMode !== LearningMode.QA || !qaDocument) return;
 
     addMessage({ sender: 'system', content: `Generating a quiz from "${qaDocument.overviewData.fileName}"...` });
     setIsLoading(true);
 
     try {
-      const result = await geminiService.generateQuiz({ text: qaDocument.fullText });
-      addMessage({ sender: 'ai', content: result, mode: activeMode });
+      const result = await generateQuizWithOptions(qaDocument.fullText, quizOptions);
+      await addQuizMessage(result, activeMode, qaDocument.overviewData.fileName, qaDocument.fullText);
     } catch (e) {
       const errorMessage = e instanceof Error ? e.message : "An unknown API error occurred.";
       addMessage({ sender: 'ai', content: `Error: Failed to generate quiz. ${errorMessage}`, mode: activeMode });
     } finally {
       setIsLoading(false);
     }
-  }, [activeMode, qaDocument, addMessage]);
+  }, [activeMode, qaDocument, addMessage, addQuizMessage]);
+
+  /**
+   * Finds passages for a question in the documents the student is working with: the Q&A document in Q&A mode,
+   * otherwise the selected Knowledge Base documents. Grounds both typed and spoken answers.
+   */
+  const searchDocuments = useCallback(async (query: string): Promise<DocumentSearchResult | null> => {
+    if (activeMode === LearningMode.QA && qaDocument) {
+      const providerId = qaDocument.store.embeddingModel?.providerId ?? embeddingProviderId;
+      const chunks = await qaDocument.store.search(query, getEmbeddingProvider(providerId));
+      if (chunks.length === 0) return null;
+      return {
+        ...buildCitedContext(
+          chunks,
+          () => ({ name: qaDocument.overviewData.fileName, pages: qaDocument.pages }),
+          false,
+          (chunk, citation) => formatSourceTitle(chunk.score, citation)
+        ),
+        topDocumentKey: qaDocument.contentHash,
+        topScore: chunks[0].score,
+      };
+    }
+    if (knowledgeDocuments.length === 0) return null;
+    const chunks = await knowledgeStoreRef.current.search(query, getEmbeddingProvider(embeddingProviderId), { documentIds: selectedDocumentIds });
+    if (chunks.length === 0) return null;
+    return {
+      ...buildCitedContext(
+        chunks,
+        documentId => {
+          const document = knowledgeDocuments.find(d => d.id === documentId);
+          return { name: document?.displayName ?? 'Unknown document', pages: document?.pages ?? [] };
+        },
+        knowledgeDocuments.length > 1,
+        (chunk, citation) => formatSourceTitle(chunk.score, citation)
+      ),
+      topDocumentKey: knowledgeDocuments.find(d => d.id === chunks[0].documentId)?.contentHash ?? chunks[0].documentId,
+      topScore: chunks[0].score,
+    };
+  }, [activeMode, qaDocument, knowledgeDocuments, selectedDocumentIds, embeddingProviderId]);
 
   const sendMessage = useCallback(async (input: GeminiInput) => {
     const userMessageContent = input.image ? (input.text || 'Analyzed Image') : input.text!;
     if (!userMessageContent.trim()) return;
 
     addMessage({ sender: 'user', content: userMessageContent, mode: activeMode });
+    logStudyEvent({ type: 'question_asked', mode: activeMode, persona: personaEnabledModes.includes(activeMode) ? activePersona : undefined });
     setIsLoading(true);
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
+
+    // Adds the answer right away and grows it as text arrives. A stopped answer keeps what was generated.
+    const streamResponse = async (
+      render: (text: string) => ChatMessage['content'],
+      stream: (options: StreamOptions) => Promise<string>
+    ) => {
+      const mode = activeMode;
+      const messageId = addMessage({ sender: 'ai', content: render(''), mode });
+      setStreamingMessageId(messageId);
+      let received = '';
+      try {
+        received = await stream({
+          signal: abortController.signal,
+          onText: text => {
+            received = text;
+            updateMessage(mode, messageId, render(text));
+          },
+        });
+      } finally {
+        updateMessage(mode, messageId, received ? render(received) : null);
+        setStreamingMessageId(null);
+      }
+    };
 
     try {
       let result;
-      const persona = personaConfigs[activePersona];
+      const persona = getPersonaConfig(
+        activePersona === ADAPTIVE_PERSONA_ID && input.text ? recordLearnerSignal({ type: 'message', text: input.text }) : activePersona
+      );
       const geminiConfig = personaEnabledModes.includes(activeMode)
         ? { systemInstruction: persona.systemInstruction }
         : undefined;
+      const citedConfig = { systemInstruction: `${persona.systemInstruction}\n\n${CITATION_INSTRUCTION}` };
+
+      // Question-answering modes remember the conversation, so follow-ups can refer back to earlier turns.
+      const usesMemory = activeMode === LearningMode.KnowledgeBase || activeMode === LearningMode.QA;
+      const memory = usesMemory && !input.image
+        ? await buildConversationMemory(
+            toConversationTurns(messagesByMode[activeMode] || []),
+            conversationSummariesRef.current[activeMode] ?? null
+          )
+        : { prompt: '', summary: null };
+      conversationSummariesRef.current[activeMode] = memory.summary;
+      const question = withConversation(input.text!, memory);
+      // Only the modes that search documents (the same ones searchDocuments serves) need a standalone query.
+      const searchesDocuments = activeMode === LearningMode.KnowledgeBase || (activeMode === LearningMode.QA && !!qaDocument);
+      const searchQuery = searchesDocuments
+        ? await rewriteAsStandaloneQuery(input.text!, memory)
+        : input.text!;
+      const answerFromDocuments = async ({ contextString, sources, topDocumentKey, topScore }: DocumentSearchResult) => {
+        const topCitation = sources[0].citation!;
+        logStudyEvent({
+          type: 'answer_retrieved',
+          query: searchQuery,
+          documentKey: topDocumentKey,
+          documentName: topCitation.documentName,
+          score: topScore,
+          page: topCitation.page,
+          pageKind: topCitation.pageKind,
+        });
+        await streamResponse(
+          answer => ({ answer, sources } as SourcedContent),
+          options => streamAnswerFromContext(question, contextString, citedConfig, options)
+        );
+      };
 
       switch (activeMode) {
-        case LearningMode.KnowledgeBase:
-          if (!vectorStore) throw new Error("Please upload a document to the Knowledge Base first.");
-          const contextChunks = await vectorStore.search(input.text!, geminiService.embedContent);
-          
-          if (contextChunks.length === 0) {
-            result = "I couldn't find any relevant information in the provided document to answer your question.";
-          } else {
-            const contextString = contextChunks.join('\n\n');
-            const answer = await geminiService.getAnswerFromContext(input.text!, contextString, geminiConfig);
-            result = {
-              answer: answer,
-              sources: contextChunks.map(chunk => ({
-                content: chunk,
-                type: 'document_chunk'
-              }))
-            } as SourcedContent;
-          }
+        case LearningMode.KnowledgeBase: {
+          if (knowledgeDocuments.length === 0) throw new Error("Please upload a document to the Knowledge Base first.");
+          const found = await searchDocuments(searchQuery);
+          if (found) await answerFromDocuments(found);
+          else result = "I couldn't find any relevant information in the provided documents to answer your question.";
           break;
+        }
         case LearningMode.QA:
           if (qaDocument) {
-            const qaContextChunks = await qaDocument.store.search(input.text!, geminiService.embedContent);
-            if (qaContextChunks.length === 0) {
-              result = "I couldn't find any relevant information in the uploaded document to answer your question.";
-            } else {
-              const contextString = qaContextChunks.join('\n\n');
-              const answer = await geminiService.getAnswerFromContext(input.text!, contextString, geminiConfig);
-              result = {
-                answer: answer,
-                sources: qaContextChunks.map(chunk => ({
-                  content: chunk,
-                  type: 'document_chunk',
-                  title: `From "${qaDocument.overviewData.fileName}"`
-                }))
-              } as SourcedContent;
-            }
+            const found = await searchDocuments(searchQuery);
+            if (found) await answerFromDocuments(found);
+            else result = "I couldn't find any relevant information in the uploaded document to answer your question.";
           } else {
-            result = await geminiService.getAnswer(input, geminiConfig);
+            await streamResponse(answer => answer, options => streamAnswer({ ...input, text: question }, geminiConfig, options));
           }
           break;
         case LearningMode.Summarize:
@@ -262,29 +791,119 @@ export const useChat = () => {
           throw new Error(`Unsupported mode: ${activeMode}`);
       }
       
-      addMessage({ sender: 'ai', content: result, mode: activeMode });
+      // Streamed answers are already in the conversation.
+      if (result !== undefined && !abortController.signal.aborted) {
+        if (activeMode === LearningMode.Quiz && input.text) {
+          await addQuizMessage(result, activeMode, 'Your notes', input.text);
+        } else {
+          addMessage({ sender: 'ai', content: result, mode: activeMode });
+        }
+      }
     } catch (e) {
       const errorMessage = e instanceof Error ? e.message : "An unknown API error occurred.";
       addMessage({ sender: 'ai', content: `Error: Failed to get response. ${errorMessage}`, mode: activeMode });
     } finally {
+      if (generationAbortRef.current === abortController) generationAbortRef.current = null;
       setIsLoading(false);
     }
-  }, [activeMode, activePersona, vectorStore, qaDocument, addMessage]);
+  }, [activeMode, activePersona, messagesByMode, knowledgeDocuments, selectedDocumentIds, embeddingProviderId, qaDocument, addMessage, updateMessage, addQuizMessage, recordLearnerSignal, searchDocuments]);
+
+  /** The overview summary of the Q&A document, or of the selected Knowledge Base documents. */
+  const getDocumentSummary = useCallback((): string | null => {
+    if (activeMode === LearningMode.QA) return qaDocument?.overviewData.summary ?? null;
+    const fileNames = new Set(knowledgeDocuments
+      .filter(d => selectedDocumentIds.length === 0 || selectedDocumentIds.includes(d.id))
+      .map(d => d.fileName));
+    const summaries = (messagesByMode[LearningMode.KnowledgeBase] || []).flatMap(m => {
+      const content = m.content as { type?: string; data?: DocumentOverviewData };
+      return content?.type === 'document_overview' && content.data && fileNames.has(content.data.fileName)
+        ? [`${content.data.fileName}: ${content.data.summary}`]
+        : [];
+    });
+    return summaries.length > 0 ? summaries.join('\n\n') : null;
+  }, [activeMode, qaDocument, knowledgeDocuments, selectedDocumentIds, messagesByMode]);
+
+  const showCitation = useCallback(async (citation: DocumentCitation) => {
+    if (citation.page === undefined) return;
+
+    let file: Blob | null = null;
+    let pages: PageSpan[] = [];
+    if (citation.documentId === QA_DOCUMENT_ID && qaDocument) {
+      file = qaDocument.file;
+      pages = qaDocument.pages;
+    } else {
+      const document = knowledgeDocuments.find(d => d.id === citation.documentId);
+      if (document) {
+        pages = document.pages;
+        file = await loadDocumentFile(document.id).catch(e => {
+          console.error("Failed to load the original document.", e);
+          return null;
+        });
+      }
+    }
+    if (!file) {
+      addMessage({ sender: 'system', content: `The original file for "${citation.documentName}" is no longer available.` });
+      return;
+    }
+    if (file.type !== 'application/pdf' && !file.type.startsWith('image/')) {
+      addMessage({
+        sender: 'system',
+        content: `Previews are only available for PDFs and images. See ${formatPageReference(citation.page, citation.pageKind)} of "${citation.documentName}".`,
+      });
+      return;
+    }
+
+    // OCR'd pages have no text layer to map the passage onto, so they open without a highlight.
+    const page = pages.find(p => p.pageNumber === citation.page);
+    const highlight = page && page.method !== 'ocr' && citation.start !== undefined && citation.end !== undefined
+      ? { start: Math.max(0, citation.start - page.start), end: Math.min(page.end, citation.end) - page.start }
+      : undefined;
+    setOpenCitation({ file, fileName: citation.documentName, page: citation.page, highlight });
+  }, [qaDocument, knowledgeDocuments, addMessage]);
+
+  const closeCitation = useCallback(() => setOpenCitation(null), []);
 
   return { 
     messages: messagesByMode[activeMode] || [], 
     sendMessage, 
     isLoading, 
+    streamingMessageId,
+    stopGenerating,
     activeMode, 
+    /** The mode on screen: Flashcards, or the chat's activeMode. */
+    selectedMode: (isFlashcardsOpen ? FLASHCARDS_MODE : activeMode) as StudyMode,
     selectMode,
     activePersona,
     selectPersona,
+    adaptiveLevel,
+    recordLearnerSignal,
+    followRecommendation,
     handleFileUpload,
     isProcessingFile,
-    knowledgeBaseReady: !!vectorStore,
+    cancelFileProcessing,
+    chatSessions: chatSessions.filter(s => s.mode === activeMode),
+    activeSessionId: activeSessionIds[activeMode] ?? null,
+    loadChatSession,
+    renameChatSession,
+    deleteChatSession,
+    importChatSession,
+    knowledgeBaseReady: knowledgeDocuments.length > 0,
+    knowledgeDocuments,
+    selectedDocumentIds,
+    toggleDocumentSelection,
+    renameKnowledgeDocument,
+    removeKnowledgeDocument,
+    embeddingProviderId,
+    selectEmbeddingProvider,
     isQADocumentLoaded: !!qaDocument,
     fileProcessingProgress,
     clearChat,
     generateQuizFromQADocument,
+    getQuizSource,
+    searchDocuments,
+    getDocumentSummary,
+    openCitation,
+    showCitation,
+    closeCitation,
   };
 };
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { useState, useCallback, useMemo } from 'react';
+import { AnyPersonaConfig, personaList, toPersonaConfig } from '../config/personaConfig';
+import {
+  CustomPersona, CustomPersonaId, createCustomPersonaId, listCustomPersonas, saveCustomPersonas, validateCustomPersona,
+  importCustomPersonas,
+} from '../lib/customPersonas';
+
+export const useCustomPersonas = () => {
+  const [customPersonas, setCustomPersonas] = useState<CustomPersona[]>(() => listCustomPersonas());
+  const [error, setError] = useState<string | null>(null);
+
+  const update = useCallback((next: CustomPersona[]) => {
+    setCustomPersonas(next);
+    saveCustomPersonas(next);
+  }, []);
+
+  /** Adds a persona, or replaces the one with the same id when editing. */
+  const savePersona = useCallback((persona: Omit<CustomPersona, 'id'> & { id?: CustomPersonaId }) => {
+    const problems = validateCustomPersona(persona);
+    if (problems.length > 0) {
+      setError(`The persona needs ${problems.join(' and ')}.`);
+      return null;
+    }
+    setError(null);
+    const saved: CustomPersona = { ...persona, id: persona.id ?? createCustomPersonaId() };
+    update(customPersonas.some(p => p.id === saved.id)
+      ? customPersonas.map(p => (p.id === saved.id ? saved : p))
+      : [...customPersonas, saved]);
+    return saved;
+  }, [customPersonas, update]);
+
+  const deletePersona = useCallback((id: CustomPersonaId) => {
+    update(customPersonas.filter(p => p.id !== id));
+  }, [customPersonas, update]);
+
+  const importPersonas = useCallback(async (file: File) => {
+    try {
+      const imported = importCustomPersonas(await file.text());
+      const importedIds = new Set(imported.map(p => p.id));
+      update([...customPersonas.filter(p => !importedIds.has(p.id)), ...imported]);
+      setError(null);
+    } catch (e) {
+      console.error("Failed to import personas.", e);
+      setError(e instanceof Error ? e.message : 'Failed to import personas.');
+    }
+  }, [customPersonas, update]);
+
+  // Built-in personas first, in the order students are used to, then the instructors' own.
+  const allPersonas = useMemo<AnyPersonaConfig[]>(
+    () => [...personaList, ...customPersonas.map(toPersonaConfig)],
+    [customPersonas],
+  );
+
+  return { customPersonas, allPersonas, error, savePersona, deletePersona, importPersonas };
+};
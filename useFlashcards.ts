@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { extractDocument } from '../lib/ingestionWorkerClient';
+import {
+  FlashcardDeck, Flashcard, ReviewRating, createFlashcard, generateFlashcards, getDueCards, scheduleReview,
+  listFlashcardDecks, listFlashcards, saveFlashcardDeck, saveFlashcard, deleteFlashcardDeck, DEFAULT_FLASHCARD_COUNT,
+} from '../lib/flashcards';
+import { createRecordId } from '../lib/localDb';
+import { logStudyEvent } from '../lib/studyActivity';
+
+export const useFlashcards = () => {
+  const [decks, setDecks] = useState<FlashcardDeck[]>([]);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The deck under review, or 'all' to work through every due card.
+  const [reviewDeckId, setReviewDeckId] = useState<string | 'all' | null>(null);
+  // Re-evaluated when a review finishes so a session that spans midnight picks up the next day's cards.
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    Promise.all([listFlashcardDecks(), listFlashcards()])
+      .then(([storedDecks, storedCards]) => {
+        setDecks(storedDecks);
+        setCards(storedCards);
+      })
+      .catch(e => console.error("Failed to load flashcard decks.", e));
+  }, []);
+
+  const dueCards = useMemo(() => getDueCards(cards, now), [cards, now]);
+
+  const reviewQueue = useMemo(
+    () => (reviewDeckId === null ? [] : dueCards.filter(card => reviewDeckId === 'all' || card.deckId === reviewDeckId)),
+    [dueCards, reviewDeckId],
+  );
+
+  const createDeck = useCallback(async (name: string, sourceName: string, text: string, count = DEFAULT_FLASHCARD_COUNT) => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const generated = await generateFlashcards(text, count);
+      const deck: FlashcardDeck = { id: createRecordId('deck'), name, sourceName, createdAt: Date.now() };
+      const deckCards = generated.map(card => createFlashcard(deck.id, card.front, card.back));
+      await saveFlashcardDeck(deck, deckCards);
+      setDecks(prev => [deck, ...prev]);
+      setCards(prev => [...prev, ...deckCards]);
+      return deck;
+    } catch (e) {
+      console.error("Failed to create the flashcard deck.", e);
+      setError(e instanceof Error ? e.message : 'Failed to create the flashcard deck.');
+      return null;
+    } finally {
+      setIsGenerating(false);
+    }
+  }, []);
+
+  const createDeckFromFile = useCallback(async (file: File, count?: number) => {
+    try {
+      const { text } = await extractDocument(file);
+      if (!text || text.trim().length < 10) {
+        throw new Error("Could not extract sufficient text from the document.");
+      }
+      return await createDeck(file.name.replace(/\.[^.]+$/, ''), file.name, text, count);
+    } catch (e) {
+      console.error("Failed to read the document for flashcards.", e);
+      setError(e instanceof Error ? e.message : 'Failed to read the document.');
+      return null;
+    }
+  }, [createDeck]);
+
+  /** Turns a chat answer into a deck, named after the question that produced it. */
+  const createDeckFromAnswer = useCallback((question: string, answer: string, count?: number) => {
+    const name = question.length > 60 ? `${question.slice(0, 57)}...` : question;
+    return createDeck(name || 'Chat answer', 'Chat answer', `Question: ${question}\n\nAnswer: ${answer}`, count);
+  }, [createDeck]);
+
+  const reviewCard = useCallback(async (cardId: string, rating: ReviewRating) => {
+    const card = cards.find(c => c.id === cardId);
+    if (!card) return;
+    const reviewed = scheduleReview(card, rating);
+    setCards(prev => prev.map(c => (c.id === cardId ? reviewed : c)));
+    setNow(Date.now());
+    logStudyEvent({ type: 'flashcard_reviewed', deckId: card.deckId, rating });
+    await saveFlashcard(reviewed).catch(e => console.error("Failed to save the flashcard review.", e));
+  }, [cards]);
+
+  const deleteDeck = useCallback(async (deckId: string) => {
+    try {
+      await deleteFlashcardDeck(deckId, cards);
+      setDecks(prev => prev.filter(deck => deck.id !== deckId));
+      setCards(prev => prev.filter(card => card.deckId !== deckId));
+      setReviewDeckId(prev => (prev === deckId ? null : prev));
+    } catch (e) {
+      console.error("Failed to delete the flashcard deck.", e);
+      setError(e instanceof Error ? e.message : 'Failed to delete the deck.');
+    }
+  }, [cards]);
+
+  const startReview = useCallback((deckId: string | 'all') => {
+    setNow(Date.now());
+    setReviewDeckId(deckId);
+  }, []);
+
+  const endReview = useCallback(() => setReviewDeckId(null), []);
+
+  return {
+    decks,
+    cards,
+    dueCards,
+    reviewQueue,
+    reviewDeckId,
+    isGenerating,
+    error,
+    createDeckFromFile,
+    createDeckFromAnswer,
+    reviewCard,
+    deleteDeck,
+    startReview,
+    endReview,
+  };
+};
@@ -1,32 +1,71 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { GeminiInput } from '../types';
+import { GeminiStreamFunction } from '../lib/geminiStream';
 
 type GeminiApiFunction = (input: GeminiInput) => Promise<any>;
 
-export const useGemini = (apiFunc: GeminiApiFunction) => {
+/**
+ * Runs a Gemini request for a panel. When a stream function is given, text responses grow in `data`
+ * as they are generated, and `stop` ends generation while keeping what arrived so far.
+ */
+export const useGemini = (apiFunc: GeminiApiFunction, streamFunc?: GeminiStreamFunction) => {
   const [data, setData] = useState<any | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const execute = useCallback(async (input: GeminiInput) => {
+    // A new request replaces any still running, so only one ever writes to `data`.
+    abortRef.current?.abort();
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    // False once this run is stopped, cleared or superseded; `stop` keeps the text that already arrived.
+    const isCurrent = () => abortRef.current === abortController && !abortController.signal.aborted;
+
     setIsLoading(true);
     setError(null);
     setData(null);
     try {
-      const result = await apiFunc(input);
-      setData(result);
+      if (streamFunc) {
+        setIsStreaming(true);
+        const text = await streamFunc(input, {
+          signal: abortController.signal,
+          onText: partial => {
+            if (isCurrent()) setData(partial);
+          },
+        });
+        if (isCurrent()) setData(text || null);
+      } else {
+        const result = await apiFunc(input);
+        if (isCurrent()) setData(result);
+      }
     } catch (e) {
-      const errorMessage = e instanceof Error ? e.message : "An unknown API error occurred.";
-      setError(`Failed to get response. ${errorMessage}`);
+      if (isCurrent()) {
+        const errorMessage = e instanceof Error ? e.message : "An unknown API error occurred.";
+        setError(`Failed to get response. ${errorMessage}`);
+      }
     } finally {
-      setIsLoading(false);
+      if (abortRef.current === abortController) {
+        abortRef.current = null;
+        setIsStreaming(false);
+        setIsLoading(false);
+      }
     }
-  }, [apiFunc]);
+  }, [apiFunc, streamFunc]);
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
 
   const clear = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
     setData(null);
     setError(null);
+    setIsStreaming(false);
+    setIsLoading(false);
   }, []);
 
-  return { data, isLoading, error, execute, clear };
+  return { data, isLoading, isStreaming, error, execute, stop, clear };
 };
@@ -0,0 +1,122 @@
+import { useState, useCallback, useRef } from 'react';
+import { QuizData } from '../types';
+import * as geminiService from '../services/geminiService';
+import {
+  QuizSessionState, QuizSource, QuizResult, createQuizSession, currentQuestion, currentAnswer, answerCurrentQuestion, advanceQuizSession,
+  retryMissedQuestions, correctAnswerText, findSupportingPassages, saveQuizResult, listQuizResults,
+} from '../lib/quizSession';
+import { logStudyEvent } from '../lib/studyActivity';
+
+interface QuizSessionOptions {
+  /** Called with each answer's correctness, e.g. to let the Adaptive persona adjust its level. */
+  onAnswered?: (correct: boolean) => void;
+}
+
+export const useQuizSession = ({ onAnswered }: QuizSessionOptions = {}) => {
+  const [session, setSession] = useState<QuizSessionState | null>(null);
+  const [explanation, setExplanation] = useState<string | null>(null);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [pastResults, setPastResults] = useState<QuizResult[]>([]);
+  // Ignores explanations that arrive after the student has moved on.
+  const explanationRequestRef = useRef(0);
+
+  const resetExplanation = () => {
+    explanationRequestRef.current++;
+    setExplanation(null);
+    setIsExplaining(false);
+  };
+
+  const startQuiz = useCallback(async (quiz: QuizData, source: QuizSource | null) => {
+    resetExplanation();
+    setSession(createQuizSession(quiz, source));
+    setPastResults(source ? await listQuizResults(source.documentKey).catch(() => []) : []);
+  }, []);
+
+  const explain = useCallback(async (state: QuizSessionState, selected: string) => {
+    const question = currentQuestion(state);
+    if (!question) return;
+    const requestId = ++explanationRequestRef.current;
+    const correct = correctAnswerText(question);
+
+    // Without the source text there is nothing to ground on, so fall back to the quiz's own explanation.
+    const passages = state.source ? findSupportingPassages(state.source, `${question.question} ${correct}`) : [];
+    if (passages.length === 0) {
+      setExplanation(question.explanation ?? null);
+      return;
+    }
+
+    setIsExplaining(true);
+    try {
+      const prompt =
+        `Quiz question: ${question.question}\nCorrect answer: ${correct}\nThe student answered: ${selected}\n\n` +
+        'In two or three sentences, explain why the correct answer is right' +
+        (selected === correct ? '.' : ' and why the student\'s answer is not.') +
+        ' Base the explanation on the context and quote it where helpful.';
+      const text = await geminiService.getAnswerFromContext(prompt, passages.join('\n\n'));
+      if (requestId === explanationRequestRef.current) setExplanation(text);
+    } catch (e) {
+      console.error("Failed to explain the quiz answer.", e);
+      if (requestId === explanationRequestRef.current) setExplanation(question.explanation ?? null);
+    } finally {
+      if (requestId === explanationRequestRef.current) setIsExplaining(false);
+    }
+  }, []);
+
+  const answer = useCallback((option: string) => {
+    if (!session || session.finished) return;
+    const answered = answerCurrentQuestion(session, option);
+    if (answered === session) return;
+    setSession(answered);
+    const result = currentAnswer(answered);
+    if (result) onAnswered?.(result.correct);
+    explain(answered, option);
+  }, [session, explain, onAnswered]);
+
+  const nextQuestion = useCallback(async () => {
+    if (!session) return;
+    resetExplanation();
+    const advanced = advanceQuizSession(session);
+    setSession(advanced);
+    if (advanced.finished) {
+      const result = await saveQuizResult(advanced).catch(e => {
+        console.error("Failed to save the quiz result.", e);
+        return null;
+      });
+      if (result) {
+        setPastResults(prev => [result, ...prev]);
+        logStudyEvent({
+          type: 'quiz_completed',
+          documentKey: result.documentKey,
+          documentName: result.documentName,
+          round: result.round,
+          correct: result.correct,
+          total: result.total,
+          missedQuestions: result.missedQuestions,
+        });
+      }
+    }
+  }, [session]);
+
+  const retryMissed = useCallback(() => {
+    if (!session?.finished) return;
+    resetExplanation();
+    setSession(retryMissedQuestions(session));
+  }, [session]);
+
+  const exitQuiz = useCallback(() => {
+    resetExplanation();
+    setSession(null);
+  }, []);
+
+  return {
+    session,
+    explanation,
+    isExplaining,
+    pastResults,
+    startQuiz,
+    answer,
+    nextQuestion,
+    retryMissed,
+    exitQuiz,
+  };
+};
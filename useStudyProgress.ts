@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { StudyEvent, listStudyEvents, computeStudyProgress } from '../lib/studyActivity';
+import { recommendStudySteps } from '../lib/studyRecommendations';
+
+export const useStudyProgress = () => {
+  const [events, setEvents] = useState<StudyEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Activity is recorded by the other hooks straight to storage, so the dashboard re-reads it when opened.
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEvents(await listStudyEvents());
+    } catch (e) {
+      console.error("Failed to load study activity.", e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const progress = useMemo(() => computeStudyProgress(events), [events]);
+  const recommendations = useMemo(() => recommendStudySteps(events, progress), [events, progress]);
+
+  return { events, progress, recommendations, isLoading, refresh };
+};
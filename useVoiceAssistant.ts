@@ -1,10 +1,67 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { GoogleGenAI, Chat } from "@google/genai";
-import { Persona, Source } from '../types';
-import { personaConfigs } from '../config/personaConfig';
+import { LearningMode, Persona, Source } from '../types';
+import { PersonaId, getPersonaConfig, personaList, toPersonaConfig } from '../config/personaConfig';
+import { FLASHCARDS_MODE, StudyMode } from '../config/studyModes';
+import { listCustomPersonas } from '../lib/customPersonas';
+import { CitedContext } from '../lib/citations';
+import { VoiceCommandActions, VoiceCommandRegistry, createDefaultVoiceCommands, findClosest } from '../lib/voiceCommands';
+import {
+    MAX_SPEECH_RATE, MIN_SPEECH_RATE, VoiceSettings, getVoiceLanguage, loadVoiceSettings, normalizeVoiceSettings, pickVoice,
+    saveVoiceSettings,
+} from '../lib/voiceSettings';
+import {
+    SpeechEngineSettings, SpeechRecognizer, SpeechSynthesizer, SpeechVoice, loadSpeechEngineSettings, resolveSpeechEngine,
+    saveSpeechEngineSettings,
+} from '../lib/speechEngines';
 
 const API_KEY = process.env.API_KEY;
 
+// Prepended to a spoken question when passages from the student's documents were found for it.
+const DOCUMENT_GROUNDING_INSTRUCTION = "Answer the student's spoken question using the excerpts from their documents below when they are relevant, and mention which page the answer comes from in a natural, spoken way. If the excerpts don't cover the question, say so briefly and answer from your own knowledge or a web search. Keep the answer short enough to be listened to.";
+
+const DEFAULT_SILENCE_TIMEOUT_MS = 20000;
+// While the assistant talks, the microphone also picks up its voice. Only a final result, or interim speech at least
+// this long, can interrupt it, and never when it repeats the sentences being spoken.
+const BARGE_IN_MIN_INTERIM_WORDS = 4;
+const ECHO_WORD_OVERLAP = 0.6;
+
+export interface VoiceAssistantOptions {
+    /** Looks up passages in the documents loaded in the chat, so spoken answers can be grounded in them. */
+    searchDocuments?: (query: string) => Promise<CitedContext | null>;
+    /**
+     * In hands-free mode, a phrase such as "hey tutor" that wakes the assistant after it has gone quiet.
+     * Without one, the student taps the orb to resume.
+     */
+    wakePhrase?: string;
+    /** How long hands-free mode keeps listening without hearing anything before going back to idle. */
+    silenceTimeoutMs?: number;
+    /** Opens a mode for "go to knowledge base" and similar commands. */
+    onNavigate?: (mode: StudyMode) => void;
+    /** The summary of the document loaded in the chat, for "summarize the document". */
+    getDocumentSummary?: () => string | null;
+}
+
+// What students call each mode when asking to go there.
+const VOICE_MODE_NAMES: { value: StudyMode; names: string[] }[] = [
+    { value: LearningMode.KnowledgeBase, names: ['knowledge base', 'library', 'documents'] },
+    { value: LearningMode.QA, names: ['q and a', 'q a', 'questions and answers', 'question and answer', 'questions'] },
+    { value: LearningMode.Summarize, names: ['summarize', 'summarise', 'summaries', 'summary'] },
+    { value: LearningMode.AnalyzeImage, names: ['image analysis', 'analyze image', 'analyse image', 'images'] },
+    { value: LearningMode.Quiz, names: ['quiz', 'quizzes'] },
+    { value: FLASHCARDS_MODE, names: ['flashcards', 'flash cards', 'cards', 'decks'] },
+];
+
+const SPEECH_RATE_STEP = 0.15;
+
+const normalizeSpeech = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+const isEchoOf = (heard: string, spoken: string) => {
+    const spokenWords = new Set(normalizeSpeech(spoken).split(' '));
+    const words = normalizeSpeech(heard).split(' ').filter(Boolean);
+    return words.length > 0 && words.filter(word => spokenWords.has(word)).length / words.length >= ECHO_WORD_OVERLAP;
+};
+
 export type ConversationState = 'idle' | 'listening' | 'processing' | 'speaking' | 'error';
 export type TranscriptEntry = {
     speaker: 'user' | 'ai';
@@ -50,116 +107,177 @@ const playTone = (freq: number, duration: number, volume: number = 0.2) => {
 // --- End Audio Cue Helpers ---
 
 
-export const useVoiceAssistant = () => {
+export const useVoiceAssistant = ({
+    searchDocuments, wakePhrase, silenceTimeoutMs = DEFAULT_SILENCE_TIMEOUT_MS, onNavigate, getDocumentSummary,
+}: VoiceAssistantOptions = {}) => {
     const [conversationState, setConversationState] = useState<ConversationState>('idle');
+    const [handsFree, setHandsFree] = useState(false);
+    // Hands-free mode went quiet and is only listening for the wake phrase.
+    const [isAwaitingWakePhrase, setIsAwaitingWakePhrase] = useState(false);
     const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
     const [error, setError] = useState<string | null>(null);
-    const [activePersona, setActivePersona] = useState<Persona>(Persona.Default);
+    const [activePersona, setActivePersona] = useState<PersonaId>(Persona.Default);
+    const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(() => loadVoiceSettings());
+    const [availableVoices, setAvailableVoices] = useState<SpeechVoice[]>([]);
+    const [speechEngineSettings, setSpeechEngineSettings] = useState<SpeechEngineSettings>(() => loadSpeechEngineSettings());
+    const speechEngine = useMemo(() => resolveSpeechEngine(speechEngineSettings), [speechEngineSettings]);
 
     const aiRef = useRef<GoogleGenAI | null>(null);
     const chatRef = useRef<Chat | null>(null);
-    const recognitionRef = useRef<any | null>(null);
-    const voiceRef = useRef<SpeechSynthesisVoice | null>(null);
-    const utteranceQueue = useRef<SpeechSynthesisUtterance[]>([]);
+    const recognitionRef = useRef<SpeechRecognizer | null>(null);
+    const synthesizerRef = useRef<SpeechSynthesizer | null>(null);
+    const voiceRef = useRef<SpeechVoice | null>(null);
+    const utteranceQueue = useRef<string[]>([]);
+    // Bumped whenever speech is cancelled, so the cancelled sentence doesn't carry on with a newer queue.
+    const speechGenerationRef = useRef(0);
     const modulationCycleRef = useRef(0);
+    // The sentence being spoken and the one before it, since recognition lags behind the voice it picks up.
+    const recentlySpokenRef = useRef<string[]>([]);
+    // The search follows whichever documents are loaded in the chat, without recreating the recognition handlers.
+    const searchDocumentsRef = useRef(searchDocuments);
+    searchDocumentsRef.current = searchDocuments;
+    // Recognition callbacks and speech events outlive renders, so they read the hands-free state through refs.
+    const conversationStateRef = useRef(conversationState);
+    conversationStateRef.current = conversationState;
+    const handsFreeSessionRef = useRef(false);
+    const awaitingWakePhraseRef = useRef(false);
+    const silenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const wakePhraseRef = useRef(wakePhrase);
+    wakePhraseRef.current = wakePhrase;
+    const silenceTimeoutRef = useRef(silenceTimeoutMs);
+    silenceTimeoutRef.current = silenceTimeoutMs;
+    const transcriptRef = useRef(transcript);
+    transcriptRef.current = transcript;
+    const voiceSettingsRef = useRef(voiceSettings);
+    voiceSettingsRef.current = voiceSettings;
+    // Commands are registered once and call whatever the latest actions are.
+    const commandActionsRef = useRef<VoiceCommandActions | null>(null);
+    const commandRegistry = useMemo(() => new VoiceCommandRegistry(createDefaultVoiceCommands(() => commandActionsRef.current!)), []);
     
-    const createChatSession = useCallback((persona: Persona) => {
+    const createChatSession = useCallback((persona: PersonaId) => {
       if (!aiRef.current) return;
-      const config = personaConfigs[persona];
+      const config = getPersonaConfig(persona);
+      const language = getVoiceLanguage(voiceSettingsRef.current.language);
       chatRef.current = aiRef.current.chats.create({
         model: 'gemini-2.5-flash',
         config: {
-          systemInstruction: config.systemInstruction,
+          systemInstruction: `${config.systemInstruction}\n\n${language.replyInstruction}`,
           tools: [{ googleSearch: {} }],
         }
       });
     }, []);
 
+    const clearSilenceTimer = () => {
+        if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
+        silenceTimerRef.current = null;
+    };
+
+    const cancelSpeech = () => {
+        utteranceQueue.current = [];
+        speechGenerationRef.current += 1;
+        synthesizerRef.current?.cancel();
+    };
+
     const stopAll = useCallback(() => {
+        handsFreeSessionRef.current = false;
+        awaitingWakePhraseRef.current = false;
+        setIsAwaitingWakePhrase(false);
+        clearSilenceTimer();
         if (recognitionRef.current) {
             recognitionRef.current.abort();
         }
-        if (speechSynthesis.speaking) {
-            speechSynthesis.cancel();
-        }
-        utteranceQueue.current = [];
+        cancelSpeech();
     }, []);
 
+    // Restarted whenever the student speaks or the assistant finishes talking. When it runs out while the assistant is
+    // listening, hands-free mode dozes until the wake phrase, or ends if there is none.
+    const armSilenceTimer = useCallback(() => {
+        clearSilenceTimer();
+        if (!handsFreeSessionRef.current) return;
+        silenceTimerRef.current = setTimeout(() => {
+            if (conversationStateRef.current !== 'listening') {
+                armSilenceTimer();
+                return;
+            }
+            if (wakePhraseRef.current?.trim()) {
+                awaitingWakePhraseRef.current = true;
+                setIsAwaitingWakePhrase(true);
+                playTone(300, 0.1);
+            } else {
+                handsFreeSessionRef.current = false;
+                recognitionRef.current?.stop();
+            }
+            setConversationState('idle');
+        }, silenceTimeoutRef.current);
+    }, []);
+
+    // Stops the assistant mid-sentence when the student starts talking over it.
+    const bargeIn = useCallback(() => {
+        cancelSpeech();
+        conversationStateRef.current = 'listening';
+        setConversationState('listening');
+        armSilenceTimer();
+    }, [armSilenceTimer]);
+
     const speak = useCallback((text: string) => {
         if (!text) {
             setConversationState('idle');
             return;
         };
 
+        cancelSpeech();
+        const generation = speechGenerationRef.current;
+        const { language, rate, pitch, modulation } = voiceSettingsRef.current;
+
         const speakQueue = () => {
-            if (utteranceQueue.current.length > 0) {
-                const utterance = utteranceQueue.current.shift();
-                if (utterance) {
-                    speechSynthesis.speak(utterance);
-                }
+            if (generation !== speechGenerationRef.current) return;
+            const sentence = utteranceQueue.current.shift();
+            const synthesizer = synthesizerRef.current;
+            if (sentence !== undefined && synthesizer) {
+                const cycle = modulationCycleRef.current;
+                const pitchModulation = modulation ? Math.sin(cycle * 0.6) * 0.05 : 0;
+                const rateModulation = modulation ? Math.cos(cycle * 0.4) * 0.08 : 0;
+                modulationCycleRef.current += 1;
+                recentlySpokenRef.current = [...recentlySpokenRef.current.slice(-1), sentence];
+
+                synthesizer
+                    .speak(sentence, { language, voice: voiceRef.current, pitch: pitch + pitchModulation, rate: rate + rateModulation })
+                    .catch(e => {
+                        if (generation === speechGenerationRef.current) console.error("Speech synthesis error:", e);
+                    })
+                    .then(speakQueue);
             } else {
                 playTone(400, 0.07);
-                setConversationState('idle');
+                // Hands-free mode hands the turn straight back to the student.
+                if (handsFreeSessionRef.current) {
+                    setConversationState('listening');
+                    armSilenceTimer();
+                } else {
+                    setConversationState('idle');
+                }
             }
         };
 
         setConversationState('speaking');
         playTone(600, 0.05);
         modulationCycleRef.current = 0;
+        recentlySpokenRef.current = [];
 
         const cleanedText = text.replace(/\*\*(.*?)\*\*/g, '$1').replace(/#+\s/g, '');
         const sentences = cleanedText.match(/[^.!?]+[.!?]*|[\s\S]+/g) || [];
 
-        utteranceQueue.current = sentences.map(sentence => {
-            const utterance = new SpeechSynthesisUtterance(sentence.trim());
-            if (voiceRef.current) {
-                utterance.voice = voiceRef.current;
-            }
-            
-            const cycle = modulationCycleRef.current;
-            const pitchModulation = Math.sin(cycle * 0.6) * 0.05;
-            const rateModulation = Math.cos(cycle * 0.4) * 0.08;
-            
-            utterance.pitch = 1.0 + pitchModulation;
-            utterance.rate = 1.05 + rateModulation;
-            modulationCycleRef.current += 1;
-
-            utterance.onend = speakQueue;
-            utterance.onerror = (event) => {
-                console.error("SpeechSynthesis Error:", event.error);
-                speakQueue();
-            };
-            return utterance;
-        });
+        utteranceQueue.current = sentences.map(sentence => sentence.trim()).filter(Boolean);
 
         speakQueue();
-    }, []);
+    }, [armSilenceTimer]);
 
-    const processAndRespond = useCallback(async (text: string) => {
-        setConversationState('processing');
-        
-        const checkForPersonaSwitch = (text: string): Persona | null => {
-            const lowerText = text.toLowerCase().trim().replace(/[.,?]/g, '');
-            const match = lowerText.match(/^(switch to|change to|use the|use)\s*(the\s*)?(socratic|simple|expert|default)/);
-            if (match) {
-                const personaName = match[3];
-                if (personaName === 'socratic') return Persona.Socratic;
-                if (personaName === 'simple') return Persona.Simple;
-                if (personaName === 'expert') return Persona.Expert;
-                if (personaName === 'default') return Persona.Default;
-            }
-            return null;
-        };
+    const reply = useCallback((text: string) => {
+        setTranscript(prev => [...prev, { speaker: 'ai', text }]);
+        speak(text);
+    }, [speak]);
 
-        const newPersona = checkForPersonaSwitch(text);
-        if (newPersona) {
-            setActivePersona(newPersona);
-            createChatSession(newPersona);
-            const confirmationText = `Alright, switched to the ${personaConfigs[newPersona].name} persona.`;
-            setTranscript(prev => [...prev, { speaker: 'ai', text: confirmationText }]);
-            speak(confirmationText);
-            return;
-        }
+    const askTutor = useCallback(async (text: string) => {
+        setConversationState('processing');
 
         if (!chatRef.current) {
             setError("Chat session not initialized.");
@@ -168,9 +286,19 @@ export const useVoiceAssistant = () => {
         }
 
         try {
-            const response = await chatRef.current.sendMessage({ message: text });
+            const search = searchDocumentsRef.current;
+            const documentContext = search
+                ? await search(text).catch(e => {
+                    console.error("Failed to search the documents.", e);
+                    return null;
+                  })
+                : null;
+            const message = documentContext
+                ? `${DOCUMENT_GROUNDING_INSTRUCTION}\n\nExcerpts:\n${documentContext.contextString}\n\nQuestion: ${text}`
+                : text;
+            const response = await chatRef.current.sendMessage({ message });
             let aiText = response.text;
-            const sources: Source[] = [];
+            const sources: Source[] = [...(documentContext?.sources ?? [])];
             const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
 
             if (groundingMetadata?.groundingChunks) {
@@ -202,7 +330,13 @@ export const useVoiceAssistant = () => {
             setError(`Error getting response: ${errorMessage}`);
             setConversationState('error');
         }
-    }, [createChatSession, speak]);
+    }, [speak]);
+
+    const processAndRespond = useCallback(async (text: string) => {
+        setConversationState('processing');
+        if (await commandRegistry.dispatch(text)) return;
+        await askTutor(text);
+    }, [commandRegistry, askTutor]);
     
     // Effect for one-time initialization of APIs
     useEffect(() => {
@@ -213,68 +347,130 @@ export const useVoiceAssistant = () => {
         }
         aiRef.current = new GoogleGenAI({ apiKey: API_KEY });
         createChatSession(Persona.Default);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
 
-        const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-        if (!SpeechRecognition) {
-            setError("Speech recognition is not supported by your browser.");
+    // Effect to set up the speech engine, again whenever the speech settings change
+    useEffect(() => {
+        if (!speechEngine) {
+            setError("Voice input isn't supported by your browser. Set up a speech service in the voice settings to use it here.");
             setConversationState('error');
             return;
         }
-        recognitionRef.current = new SpeechRecognition();
-        recognitionRef.current.continuous = false;
-        recognitionRef.current.interimResults = false;
-
-        const loadVoices = () => {
-            const availableVoices = speechSynthesis.getVoices();
-            if (availableVoices.length === 0) return;
-            const usEnglishVoices = availableVoices.filter(v => v.lang.startsWith('en-US'));
-            voiceRef.current =
-                usEnglishVoices.find(v => /neural/i.test(v.name)) ||
-                usEnglishVoices.find(v => /google/i.test(v.name)) ||
-                usEnglishVoices.find(v => v.localService) ||
-                usEnglishVoices[0];
-        };
-        speechSynthesis.addEventListener('voiceschanged', loadVoices);
+        const recognizer = speechEngine.createRecognizer(speechEngineSettings);
+        const synthesizer = speechEngine.createSynthesizer(speechEngineSettings);
+        recognitionRef.current = recognizer;
+        synthesizerRef.current = synthesizer;
+
+        const loadVoices = () => setAvailableVoices(synthesizer.getVoices());
+        const unsubscribe = synthesizer.onVoicesChanged(loadVoices);
         loadVoices();
-        
+
         return () => {
             stopAll();
-            speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+            unsubscribe();
+            recognitionRef.current = null;
+            synthesizerRef.current = null;
+            setConversationState(currentState => (currentState === 'error' ? currentState : 'idle'));
         };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, []);
+    }, [speechEngine, speechEngineSettings, stopAll]);
+
+    useEffect(() => {
+        voiceRef.current = pickVoice(availableVoices, voiceSettings);
+    }, [availableVoices, voiceSettings]);
 
     // Effect to keep recognition event handlers up-to-date with the latest state
     useEffect(() => {
         if (!recognitionRef.current) return;
         
         recognitionRef.current.onstart = () => {
-            setConversationState('listening');
+            // A hands-free restart must not interrupt an answer or wake a dozing assistant.
+            setConversationState(currentState =>
+                currentState === 'speaking' || currentState === 'processing' || awaitingWakePhraseRef.current ? currentState : 'listening'
+            );
             setError(null);
         };
 
-        recognitionRef.current.onresult = (event: any) => {
-            const userText = event.results[0][0].transcript;
-            if (userText) {
-                setTranscript(prev => [...prev, { speaker: 'user', text: userText }]);
-                processAndRespond(userText);
+        recognitionRef.current.onresult = results => {
+            if (!handsFreeSessionRef.current) {
+                const userText = results[0]?.transcript;
+                if (userText) {
+                    setTranscript(prev => [...prev, { speaker: 'user', text: userText }]);
+                    processAndRespond(userText);
+                }
+                return;
+            }
+
+            for (const result of results) {
+                const heard = result.transcript.trim();
+                if (!heard) continue;
+                armSilenceTimer();
+
+                if (awaitingWakePhraseRef.current) {
+                    if (!result.isFinal) continue;
+                    const phrase = normalizeSpeech(wakePhraseRef.current ?? '');
+                    const normalized = normalizeSpeech(heard);
+                    const at = phrase ? normalized.indexOf(phrase) : -1;
+                    if (at === -1) continue;
+                    awaitingWakePhraseRef.current = false;
+                    setIsAwaitingWakePhrase(false);
+                    playTone(500, 0.05);
+                    setConversationState('listening');
+                    // "Hey tutor, what is osmosis?" wakes the assistant and asks in one go.
+                    const question = normalized.slice(at + phrase.length).trim();
+                    if (question) {
+                        setTranscript(prev => [...prev, { speaker: 'user', text: question }]);
+                        processAndRespond(question);
+                    }
+                    continue;
+                }
+
+                if (
+                    conversationStateRef.current === 'speaking' &&
+                    (result.isFinal || normalizeSpeech(heard).split(' ').length >= BARGE_IN_MIN_INTERIM_WORDS) &&
+                    !isEchoOf(heard, recentlySpokenRef.current.join(' '))
+                ) {
+                    bargeIn();
+                }
+                // Anything else heard while the assistant talks or thinks is its own voice or background noise.
+                const state = conversationStateRef.current;
+                if (result.isFinal && state !== 'processing' && state !== 'speaking') {
+                    setTranscript(prev => [...prev, { speaker: 'user', text: heard }]);
+                    processAndRespond(heard);
+                }
             }
         };
 
-        recognitionRef.current.onerror = (event: any) => {
-            console.error("Speech Recognition Error:", event.error);
-            if (event.error === 'not-allowed') {
+        recognitionRef.current.onerror = error => {
+            // Hands-free mode keeps listening through pauses; the silence timer decides when to stop.
+            if (handsFreeSessionRef.current && (error === 'no-speech' || error === 'aborted')) return;
+            handsFreeSessionRef.current = false;
+            clearSilenceTimer();
+            console.error("Speech Recognition Error:", error);
+            if (error === 'not-allowed') {
                 setError("Microphone access denied. Please enable it in your browser settings and tap the orb to try again.");
-            } else if (event.error !== 'aborted') {
-                setError(`Speech recognition error: ${event.error}`);
+            } else if (error !== 'aborted') {
+                setError(`Speech recognition error: ${error}`);
             }
             setConversationState('error');
         };
 
         recognitionRef.current.onend = () => {
+            // Browsers end continuous recognition on their own after a while; hands-free mode picks it straight back up.
+            if (handsFreeSessionRef.current) {
+                try {
+                    recognitionRef.current?.start({ language: voiceSettingsRef.current.language, continuous: true, interimResults: true });
+                    return;
+                } catch (e) {
+                    // Already started again by a new session.
+                    if (e instanceof DOMException && e.name === 'InvalidStateError') return;
+                    console.error("Failed to restart speech recognition.", e);
+                    handsFreeSessionRef.current = false;
+                }
+            }
             setConversationState(currentState => (currentState === 'listening' ? 'idle' : currentState));
         };
-    }, [processAndRespond]);
+    }, [processAndRespond, armSilenceTimer, bargeIn, speechEngineSettings]);
 
     const startListening = useCallback(() => {
         if (conversationState !== 'idle' && conversationState !== 'error') return;
@@ -283,27 +479,142 @@ export const useVoiceAssistant = () => {
         stopAll();
         setError(null);
         
-        recognitionRef.current.start();
-    }, [conversationState, stopAll]);
+        handsFreeSessionRef.current = handsFree;
+        recognitionRef.current.start({ language: voiceSettings.language, continuous: handsFree, interimResults: handsFree });
+        armSilenceTimer();
+    }, [conversationState, handsFree, voiceSettings.language, stopAll, armSilenceTimer]);
+
+    const toggleHandsFree = useCallback(() => {
+        stopAll();
+        setConversationState('idle');
+        setHandsFree(prev => !prev);
+    }, [stopAll]);
 
     const toggleConversation = useCallback(() => {
         getAudioContext();
 
+        // Tapping a dozing hands-free assistant wakes it, like saying the wake phrase.
+        if (awaitingWakePhraseRef.current) {
+            awaitingWakePhraseRef.current = false;
+            setIsAwaitingWakePhrase(false);
+            setConversationState('listening');
+            armSilenceTimer();
+            return;
+        }
+
         switch (conversationState) {
             case 'idle':
             case 'error':
                 startListening();
                 break;
             case 'listening':
-                recognitionRef.current?.stop();
+                if (handsFreeSessionRef.current) {
+                    stopAll();
+                    setConversationState('idle');
+                } else {
+                    recognitionRef.current?.stop();
+                }
                 break;
             default:
                 stopAll();
                 setConversationState('idle');
                 break;
         }
-    }, [conversationState, startListening, stopAll]);
-
-
-    return { conversationState, transcript, error, toggleConversation, activePersona };
+    }, [conversationState, startListening, stopAll, armSilenceTimer]);
+
+
+    const selectPersona = useCallback((persona: PersonaId) => {
+        setActivePersona(persona);
+        createChatSession(persona);
+    }, [createChatSession]);
+
+    const updateSpeechEngineSettings = useCallback((changes: Partial<SpeechEngineSettings>) => {
+        const next = { ...speechEngineSettings, ...changes };
+        setSpeechEngineSettings(next);
+        saveSpeechEngineSettings(next);
+    }, [speechEngineSettings]);
+
+    const updateVoiceSettings = useCallback((changes: Partial<VoiceSettings>) => {
+        const next = normalizeVoiceSettings({ ...voiceSettingsRef.current, ...changes });
+        const languageChanged = next.language !== voiceSettingsRef.current.language;
+        // A voice suited to the new language is picked unless one was chosen along with it.
+        if (languageChanged && !('voiceURI' in changes)) next.voiceURI = null;
+        voiceSettingsRef.current = next;
+        setVoiceSettings(next);
+        saveVoiceSettings(next);
+        // The reply language is part of the tutor's instructions, so it takes a fresh session.
+        if (languageChanged) createChatSession(activePersona);
+    }, [activePersona, createChatSession]);
+
+    commandActionsRef.current = {
+        repeat: () => {
+            const last = [...transcriptRef.current].reverse().find(entry => entry.speaker === 'ai');
+            if (last) speak(last.text);
+            else reply("I haven't said anything yet.");
+        },
+        changeRate: direction => {
+            const { rate } = voiceSettingsRef.current;
+            if (direction === 'slower' ? rate <= MIN_SPEECH_RATE : rate >= MAX_SPEECH_RATE) {
+                reply(direction === 'slower' ? "That's as slowly as I can speak." : "That's as fast as I can speak.");
+                return;
+            }
+            updateVoiceSettings({ rate: rate + (direction === 'slower' ? -SPEECH_RATE_STEP : SPEECH_RATE_STEP) });
+            reply(direction === 'slower' ? "Okay, I'll speak more slowly." : "Okay, I'll speak faster.");
+        },
+        quiz: topic => askTutor(
+            `Quiz me on ${topic}. Ask me one short question at a time, wait for my spoken answer, ` +
+            'and tell me whether I was right before asking the next one.'
+        ),
+        summarize: () => {
+            const summary = getDocumentSummary?.();
+            reply(summary || "There's no document loaded yet. Upload one in the chat and ask me again.");
+        },
+        navigate: modeName => {
+            const mode = findClosest(modeName, VOICE_MODE_NAMES, ['mode', 'section', 'tab', 'page']);
+            if (!mode || !onNavigate) return false;
+            onNavigate(mode);
+            reply(`Opening ${VOICE_MODE_NAMES.find(entry => entry.value === mode)!.names[0]}.`);
+            return true;
+        },
+        stop: () => {
+            stopAll();
+            setConversationState('idle');
+        },
+        readSources: () => {
+            const last = [...transcriptRef.current].reverse().find(entry => entry.speaker === 'ai' && entry.sources?.length);
+            reply(last?.sources
+                ? last.sources.map((source, index) => `Source ${index + 1}: ${source.title || source.content}.`).join(' ')
+                : "My last answer didn't use any sources.");
+        },
+        switchPersona: personaName => {
+            const candidates = [...personaList, ...listCustomPersonas().map(toPersonaConfig)]
+                .map(config => ({ value: config.id as PersonaId, names: [config.name, config.id] }));
+            const persona = findClosest(personaName, candidates, ['persona', 'tutor', 'mode', 'level']);
+            if (!persona) return false;
+            selectPersona(persona);
+            reply(`Alright, switched to the ${getPersonaConfig(persona).name} persona.`);
+            return true;
+        },
+    };
+
+    const voiceCommands = useMemo(() => commandRegistry.list(), [commandRegistry]);
+
+    return {
+        conversationState,
+        transcript,
+        error,
+        toggleConversation,
+        activePersona,
+        selectPersona,
+        voiceCommands,
+        handsFree,
+        toggleHandsFree,
+        isAwaitingWakePhrase,
+        voiceSettings,
+        updateVoiceSettings,
+        availableVoices,
+        speechEngine,
+        speechEngineSettings,
+        updateSpeechEngineSettings,
+    };
 };
\ No newline at end of file
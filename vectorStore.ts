@@ -1,25 +1,160 @@
+import { chunkText, ChunkingOptions } from './chunking';
+import { Bm25Index } from './bm25';
+import type { EmbeddingProvider, EmbeddingModelInfo } from './embeddingProviders';
+import { withRetry, throwIfAborted } from './retry';
+
 interface VectorStoreEntry {
+  id: string;
+  documentId: string;
   chunk: string;
   embedding: number[];
+  start?: number;
+  end?: number;
+}
+
+export interface SerializedVectorEntry {
+  chunk: string;
+  embedding: number[];
+  /** Offsets of the chunk within its document's extracted text. */
+  start?: number;
+  end?: number;
+}
+
+export interface SerializedVectorStore {
+  /** The provider and dimensionality that produced the embeddings; absent for indexes cached before it was recorded. */
+  model?: EmbeddingModelInfo;
+  entries: SerializedVectorEntry[];
 }
 
-type EmbeddingFunction = (text: string) => Promise<number[]>;
+export interface VectorSearchResult {
+  chunk: string;
+  documentId: string;
+  start?: number;
+  end?: number;
+  /** Fused relevance in [0, 1], used for thresholding and shown to users as confidence. */
+  score: number;
+  semanticScore: number;
+  lexicalScore: number;
+}
+
+export interface SearchOptions {
+  topK?: number;
+  /** Restricts the search to these documents; searches every document when omitted or empty. */
+  documentIds?: string[];
+  /** Results whose fused score falls below this are dropped. */
+  minScore?: number;
+  /** Weight of cosine similarity versus BM25 in the fused score, from 0 (lexical only) to 1 (semantic only). */
+  semanticWeight?: number;
+  /** MMR trade-off between relevance (1) and diversity (0) when picking the final results. */
+  diversity?: number;
+  /** How many of the best fused candidates MMR picks from. */
+  candidatePoolSize?: number;
+}
+
+const DEFAULT_SEARCH_OPTIONS: Required<Omit<SearchOptions, 'documentIds'>> = {
+  topK: 3,
+  minScore: 0.25,
+  semanticWeight: 0.7,
+  diversity: 0.7,
+  candidatePoolSize: 20,
+};
+
+// BM25 score at which a keyword match counts for half. Scores saturate towards 1 above it rather than being divided
+// by the query's best score, so the top keyword hit doesn't get full marks however weak the match is.
+const LEXICAL_SCORE_HALF_POINT = 5;
+
+export interface IngestionOptions {
+  onProgress?: (progress: { stage: string; percentage: number }) => void;
+  chunking?: ChunkingOptions;
+  /** Aborts ingestion between batches and during retry waits. */
+  signal?: AbortSignal;
+  /** Entries embedded by an earlier, interrupted run; matching leading chunks are reused instead of re-embedded. */
+  resumeFrom?: SerializedVectorEntry[];
+  /** Called with each newly embedded batch and the chunk index it starts at, so progress can be checkpointed. */
+  onBatchComplete?: (batch: SerializedVectorEntry[], firstIndex: number) => void | Promise<void>;
+  /** Retries per chunk before ingestion fails. */
+  retries?: number;
+}
+
+const DEFAULT_DOCUMENT_ID = 'default';
 
 export class VectorStore {
   private store: VectorStoreEntry[] = [];
+  private lexicalIndex = new Bm25Index();
+  private nextEntryId = 0;
+  private model: EmbeddingModelInfo | null = null;
+
+  /** The provider and dimensionality of the indexed embeddings, or null while the store is empty. */
+  get embeddingModel(): EmbeddingModelInfo | null {
+    return this.model;
+  }
+
+  get size(): number {
+    return this.store.length;
+  }
+
+  get documentIds(): string[] {
+    return Array.from(new Set(this.store.map(entry => entry.documentId)));
+  }
+
+  hasDocument(documentId: string): boolean {
+    return this.store.some(entry => entry.documentId === documentId);
+  }
+
+  serializeDocument(documentId: string): SerializedVectorStore {
+    return {
+      model: this.model ?? undefined,
+      entries: this.store
+        .filter(entry => entry.documentId === documentId)
+        .map(({ chunk, embedding, start, end }) => ({ chunk, embedding: [...embedding], start, end })),
+    };
+  }
+
+  importDocument(documentId: string, data: SerializedVectorStore) {
+    this.removeDocument(documentId);
+    if (data.model) {
+      this.assertCompatible(data.model.providerId, data.model.dimensions);
+      this.model = data.model;
+    }
+    data.entries.forEach(entry => this.addEntry(documentId, { ...entry, embedding: [...entry.embedding] }));
+  }
 
-  private chunkText(text: string, chunkSize = 1000, overlap = 200): string[] {
-    const chunks: string[] = [];
-    let i = 0;
-    while (i < text.length) {
-      const end = Math.min(i + chunkSize, text.length);
-      chunks.push(text.slice(i, end));
-      i += chunkSize - overlap;
-      if (end === text.length) break;
+  removeDocument(documentId: string) {
+    this.store
+      .filter(entry => entry.documentId === documentId)
+      .forEach(entry => this.lexicalIndex.remove(entry.id));
+    this.store = this.store.filter(entry => entry.documentId !== documentId);
+    if (this.store.length === 0) {
+      this.model = null;
     }
-    return chunks;
   }
-  
+
+  /**
+   * Rejects embeddings from a different provider or of a different size than the indexed ones,
+   * since comparing vectors from different models gives meaningless similarities.
+   */
+  private assertCompatible(providerId: string, dimensions?: number) {
+    if (!this.model) return;
+    if (this.model.providerId !== providerId || (dimensions !== undefined && this.model.dimensions !== dimensions)) {
+      throw new Error(
+        `This index was built with the "${this.model.providerId}" embedding provider (${this.model.dimensions} dimensions) ` +
+        `and can't be mixed with "${providerId}"${dimensions !== undefined ? ` (${dimensions} dimensions)` : ''}.`
+      );
+    }
+  }
+
+  private addEntry(documentId: string, entry: SerializedVectorEntry) {
+    const id = String(this.nextEntryId++);
+    this.store.push({ id, documentId, ...entry });
+    this.lexicalIndex.add(id, entry.chunk);
+  }
+
+  static deserialize(data: SerializedVectorStore, documentId = DEFAULT_DOCUMENT_ID): VectorStore {
+    const vectorStore = new VectorStore();
+    vectorStore.importDocument(documentId, data);
+    return vectorStore;
+  }
+
   private cosineSimilarity(vecA: number[], vecB: number[]): number {
     let dotProduct = 0;
     let normA = 0;
@@ -35,24 +170,62 @@ export class VectorStore {
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
   }
 
+  /**
+   * Replaces the store's contents with a single document.
+   */
   async create(
     text: string, 
-    embeddingFn: EmbeddingFunction,
-    onProgress?: (progress: { stage: string; percentage: number }) => void
+    embeddingProvider: EmbeddingProvider,
+    options: IngestionOptions = {}
+  ): Promise<void> {
+    this.documentIds.forEach(documentId => this.removeDocument(documentId));
+    await this.addDocument(DEFAULT_DOCUMENT_ID, text, embeddingProvider, options);
+  }
+
+  /**
+   * Chunks and embeds a document, adding it to the store alongside any existing documents.
+   * Entries for the document are only committed once every chunk has been embedded, so a failed
+   * or cancelled run leaves the store untouched.
+   */
+  async addDocument(
+    documentId: string,
+    text: string,
+    embeddingProvider: EmbeddingProvider,
+    options: IngestionOptions = {}
   ): Promise<void> {
-    this.store = [];
-    const chunks = this.chunkText(text);
+    const { onProgress, chunking, signal, resumeFrom = [], onBatchComplete, retries = 3 } = options;
+    this.assertCompatible(embeddingProvider.id);
+    const chunks = chunkText(text, chunking);
+
+    // Chunking is deterministic, so an interrupted run's entries line up with the leading chunks.
+    let resumedCount = 0;
+    while (
+      resumedCount < Math.min(resumeFrom.length, chunks.length) &&
+      resumeFrom[resumedCount].chunk === chunks[resumedCount].text
+    ) {
+      resumedCount++;
+    }
+    const entries: SerializedVectorEntry[] = resumeFrom.slice(0, resumedCount);
+    if (resumedCount > 0) {
+      onProgress?.({
+        stage: `Resuming from chunk ${resumedCount}/${chunks.length}...`,
+        percentage: Math.round((resumedCount / chunks.length) * 100),
+      });
+    }
 
     // Process chunks in parallel batches to avoid overwhelming the API
     const batchSize = 5;
-    for (let i = 0; i < chunks.length; i += batchSize) {
+    for (let i = resumedCount; i < chunks.length; i += batchSize) {
+        throwIfAborted(signal);
         const batchChunks = chunks.slice(i, i + batchSize);
         const batchEmbeddings = await Promise.all(
-            batchChunks.map(chunk => embeddingFn(chunk))
+            batchChunks.map(chunk => withRetry(() => embeddingProvider.embed(chunk.text), { retries, signal }))
         );
-        batchChunks.forEach((chunk, index) => {
-            this.store.push({ chunk, embedding: batchEmbeddings[index] });
-        });
+        const batch = batchChunks.map((chunk, index) => (
+            { chunk: chunk.text, embedding: batchEmbeddings[index], start: chunk.start, end: chunk.end }
+        ));
+        entries.push(...batch);
+        await onBatchComplete?.(batch, i);
 
         if (onProgress) {
           const processedCount = Math.min(i + batchSize, chunks.length);
@@ -63,22 +236,89 @@ export class VectorStore {
           });
         }
     }
+
+    const dimensions = entries[0]?.embedding.length ?? 0;
+    if (entries.some(entry => entry.embedding.length !== dimensions)) {
+      throw new Error(`The "${embeddingProvider.id}" embedding provider returned vectors of inconsistent size.`);
+    }
+    this.importDocument(documentId, { model: { providerId: embeddingProvider.id, dimensions }, entries });
   }
 
-  async search(query: string, embeddingFn: EmbeddingFunction, topK = 3): Promise<string[]> {
-    if (this.store.length === 0) {
+  /**
+   * Finds the chunks most relevant to the query using hybrid retrieval.
+   * Cosine similarity and BM25 keyword scores are fused, thresholded, and then
+   * diversified with maximal marginal relevance so near-duplicate windows don't crowd the results.
+   */
+  async search(
+    query: string,
+    embeddingProvider: EmbeddingProvider,
+    options: SearchOptions = {}
+  ): Promise<VectorSearchResult[]> {
+    const { topK, minScore, semanticWeight, diversity, candidatePoolSize } = { ...DEFAULT_SEARCH_OPTIONS, ...options };
+    const { documentIds } = options;
+    const candidates = documentIds && documentIds.length > 0
+      ? this.store.filter(entry => documentIds.includes(entry.documentId))
+      : this.store;
+
+    if (candidates.length === 0) {
       return [];
     }
 
-    const queryEmbedding = await embeddingFn(query);
+    this.assertCompatible(embeddingProvider.id);
+    const queryEmbedding = await embeddingProvider.embed(query);
+    this.assertCompatible(embeddingProvider.id, queryEmbedding.length);
+    const lexicalScores = this.lexicalIndex.score(query, candidates.map(entry => entry.id));
 
-    const similarities = this.store.map(entry => ({
-      chunk: entry.chunk,
-      similarity: this.cosineSimilarity(queryEmbedding, entry.embedding),
-    }));
+    // Identical chunks (e.g. the same passage in two documents) only count once, keeping the best-scoring copy.
+    const seenChunks = new Set<string>();
+    const scored = candidates
+      .map(entry => {
+        const semanticScore = Math.max(0, this.cosineSimilarity(queryEmbedding, entry.embedding));
+        const bm25Score = lexicalScores.get(entry.id) || 0;
+        const lexicalScore = bm25Score / (bm25Score + LEXICAL_SCORE_HALF_POINT);
+        return {
+          entry,
+          semanticScore,
+          lexicalScore,
+          score: semanticWeight * semanticScore + (1 - semanticWeight) * lexicalScore,
+        };
+      })
+      .filter(candidate => candidate.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .filter(candidate => {
+        if (seenChunks.has(candidate.entry.chunk)) return false;
+        seenChunks.add(candidate.entry.chunk);
+        return true;
+      })
+      .slice(0, Math.max(candidatePoolSize, topK));
 
-    similarities.sort((a, b) => b.similarity - a.similarity);
+    // Maximal marginal relevance: trade each candidate's relevance against its similarity to those already picked.
+    const selected: typeof scored = [];
+    const remaining = [...scored];
+    while (selected.length < topK && remaining.length > 0) {
+      let bestIndex = 0;
+      let bestValue = -Infinity;
+      remaining.forEach((candidate, index) => {
+        const redundancy = selected.length === 0
+          ? 0
+          : Math.max(...selected.map(picked => this.cosineSimilarity(candidate.entry.embedding, picked.entry.embedding)));
+        const value = diversity * candidate.score - (1 - diversity) * redundancy;
+        if (value > bestValue) {
+          bestValue = value;
+          bestIndex = index;
+        }
+      });
+      selected.push(remaining.splice(bestIndex, 1)[0]);
+    }
 
-    return similarities.slice(0, topK).map(item => item.chunk);
+    return selected.map(({ entry, score, semanticScore, lexicalScore }) => ({
+      chunk: entry.chunk,
+      documentId: entry.documentId,
+      start: entry.start,
+      end: entry.end,
+      score,
+      semanticScore,
+      lexicalScore,
+    }));
   }
 }
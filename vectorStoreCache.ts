@@ -0,0 +1,81 @@
+import { SerializedVectorStore, SerializedVectorEntry } from './vectorStore';
+import { STORES, getRecord, getRecordsInRange, putRecord, deleteRecord, deleteRecordsInRange } from './localDb';
+
+export interface CachedVectorIndex extends SerializedVectorStore {
+  id: string;
+  fileName: string;
+  createdAt: number;
+}
+
+/**
+ * Computes a SHA-256 hash of extracted document text, used as the cache key for its index.
+ * @param text The extracted text content.
+ * @returns A hex-encoded digest.
+ */
+export const computeContentHash = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const loadCachedIndex = async (contentHash: string): Promise<CachedVectorIndex | null> => {
+  const record = await getRecord<CachedVectorIndex>(STORES.vectorIndexes, contentHash);
+  if (!record || record.entries.length === 0) return null;
+  return record;
+};
+
+export const cacheIndex = async (contentHash: string, fileName: string, index: SerializedVectorStore): Promise<void> => {
+  await putRecord<CachedVectorIndex>(STORES.vectorIndexes, {
+    id: contentHash,
+    fileName,
+    createdAt: Date.now(),
+    ...index,
+  });
+};
+
+export const deleteCachedIndex = async (contentHash: string): Promise<void> => {
+  await deleteRecord(STORES.vectorIndexes, contentHash);
+};
+
+/** One embedded batch of an ingestion in progress, stored on its own so each save writes only the new entries. */
+interface IngestionCheckpointBatch {
+  id: string;
+  /** The chunk index of the first entry. */
+  firstIndex: number;
+  entries: SerializedVectorEntry[];
+  updatedAt: number;
+}
+
+// Zero-padded so the batches of an index sort in chunk order by key.
+const checkpointBatchId = (indexKey: string, firstIndex: number) => `${indexKey}#${String(firstIndex).padStart(8, '0')}`;
+const checkpointRange = (indexKey: string) => IDBKeyRange.bound(`${indexKey}#`, `${indexKey}#\uffff`);
+
+/**
+ * Loads the entries embedded so far by an interrupted ingestion of the index with this key, stopping at the first
+ * gap in case a batch failed to save.
+ */
+export const loadIngestionCheckpoint = async (indexKey: string): Promise<SerializedVectorEntry[]> => {
+  const batches = await getRecordsInRange<IngestionCheckpointBatch>(STORES.ingestionCheckpoints, checkpointRange(indexKey));
+  const entries: SerializedVectorEntry[] = [];
+  for (const batch of batches.sort((a, b) => a.firstIndex - b.firstIndex)) {
+    if (batch.firstIndex !== entries.length) break;
+    entries.push(...batch.entries);
+  }
+  return entries;
+};
+
+export const saveIngestionCheckpoint = async (indexKey: string, entries: SerializedVectorEntry[], firstIndex: number): Promise<void> => {
+  await putRecord<IngestionCheckpointBatch>(STORES.ingestionCheckpoints, {
+    id: checkpointBatchId(indexKey, firstIndex),
+    firstIndex,
+    entries,
+    updatedAt: Date.now(),
+  });
+};
+
+export const clearIngestionCheckpoint = async (indexKey: string): Promise<void> => {
+  await deleteRecordsInRange(STORES.ingestionCheckpoints, checkpointRange(indexKey));
+  // Earlier versions kept the whole checkpoint in one record under the index key.
+  await deleteRecord(STORES.ingestionCheckpoints, indexKey);
+};
@@ -0,0 +1,239 @@
+/**
+ * Spoken commands for the voice assistant. Each command lists the phrases that trigger it; a phrase ending in
+ * ARGUMENT captures whatever the student says after it, as in "quiz me on photosynthesis". Matching is forgiving
+ * of recognition slips ("quiz me of"), filler words ("could you repeat that please") and punctuation.
+ */
+export const ARGUMENT = '…';
+
+export interface VoiceCommand {
+  id: string;
+  /** Shown in the list of commands. */
+  label: string;
+  description: string;
+  /** Synonyms that trigger the command; the first is shown as the example. */
+  phrases: string[];
+  /**
+   * Carries out the command with the captured argument ('' for phrases without one). Returning false means the
+   * command didn't apply after all, e.g. "use the quadratic formula" names no persona, and the next match is tried.
+   */
+  run: (argument: string) => boolean | void | Promise<boolean | void>;
+}
+
+export interface VoiceCommandMatch {
+  command: VoiceCommand;
+  argument: string;
+  /** How closely the utterance matched, from the threshold up to 1. */
+  score: number;
+}
+
+// Below this similarity an utterance is treated as a question for the tutor rather than a command.
+const MATCH_THRESHOLD = 0.8;
+
+const LEADING_FILLERS = ['please', 'can you', 'could you', 'would you', 'will you', 'hey', 'okay', 'ok', 'um', 'uh', 'so', 'and', 'now', 'just'];
+const TRAILING_FILLERS = ['please', 'now', 'for me', 'thanks', 'thank you'];
+
+export const normalizeUtterance = (text: string) =>
+  text.toLowerCase().replace(/[’']/g, '').replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+const stripFillers = (text: string) => {
+  let result = text;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const filler of LEADING_FILLERS) {
+      if (result.startsWith(`${filler} `)) {
+        result = result.slice(filler.length + 1);
+        changed = true;
+      }
+    }
+    for (const filler of TRAILING_FILLERS) {
+      if (result.endsWith(` ${filler}`)) {
+        result = result.slice(0, -filler.length - 1);
+        changed = true;
+      }
+    }
+  }
+  return result;
+};
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+};
+
+const matchPhrase = (utterance: string, phrase: string): { score: number; argument: string } | null => {
+  const normalizedPhrase = normalizeUtterance(phrase.replace(ARGUMENT, ''));
+  if (!phrase.endsWith(ARGUMENT)) {
+    const score = similarity(utterance, normalizedPhrase);
+    return score >= MATCH_THRESHOLD ? { score, argument: '' } : null;
+  }
+
+  // Compare the phrase with the same number of leading words, and keep the rest as the argument.
+  const words = utterance.split(' ');
+  const prefixLength = normalizedPhrase.split(' ').length;
+  if (words.length <= prefixLength) return null;
+  const score = similarity(words.slice(0, prefixLength).join(' '), normalizedPhrase);
+  return score >= MATCH_THRESHOLD ? { score, argument: words.slice(prefixLength).join(' ') } : null;
+};
+
+export class VoiceCommandRegistry {
+  private commands = new Map<string, VoiceCommand>();
+
+  constructor(commands: VoiceCommand[] = []) {
+    commands.forEach(command => this.register(command));
+  }
+
+  /** Adds a command, replacing any registered under the same id. */
+  register(command: VoiceCommand) {
+    this.commands.set(command.id, command);
+  }
+
+  unregister(id: string) {
+    this.commands.delete(id);
+  }
+
+  list(): VoiceCommand[] {
+    return [...this.commands.values()];
+  }
+
+  /**
+   * Every command the utterance could be, best match first. Exact phrases outrank fuzzy ones, and among equally
+   * close matches, phrases without an argument outrank those with one.
+   */
+  match(text: string): VoiceCommandMatch[] {
+    const utterance = stripFillers(normalizeUtterance(text));
+    if (!utterance) return [];
+
+    const matches: VoiceCommandMatch[] = [];
+    for (const command of this.commands.values()) {
+      let best: VoiceCommandMatch | null = null;
+      for (const phrase of command.phrases) {
+        const result = matchPhrase(utterance, phrase);
+        if (result && (!best || result.score > best.score || (result.score === best.score && !result.argument))) {
+          best = { command, ...result };
+        }
+      }
+      if (best) matches.push(best);
+    }
+    return matches.sort((a, b) => (b.score - a.score) || (Number(!!a.argument) - Number(!!b.argument)));
+  }
+
+  /** Runs the best matching command that applies, returning whether one did. */
+  async dispatch(text: string): Promise<boolean> {
+    for (const { command, argument } of this.match(text)) {
+      if ((await command.run(argument)) !== false) return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Picks the candidate whose names best match what was said, e.g. "the beginner persona" -> Persona.Simple.
+ * Words like "the", "persona" or "mode" around the name are ignored.
+ */
+export const findClosest = <T>(spoken: string, candidates: { value: T; names: string[] }[], ignoredWords: string[] = []): T | null => {
+  const ignored = new Set(['the', 'a', 'my', ...ignoredWords]);
+  const target = normalizeUtterance(spoken).split(' ').filter(word => !ignored.has(word)).join(' ');
+  if (!target) return null;
+
+  let best: { value: T; score: number } | null = null;
+  for (const { value, names } of candidates) {
+    for (const name of names) {
+      const score = similarity(target, normalizeUtterance(name));
+      if (score >= MATCH_THRESHOLD && (!best || score > best.score)) best = { value, score };
+    }
+  }
+  return best?.value ?? null;
+};
+
+/** What the built-in commands do; supplied by the voice assistant and read when a command runs. */
+export interface VoiceCommandActions {
+  repeat: () => void;
+  changeRate: (direction: 'slower' | 'faster') => void;
+  quiz: (topic: string) => void;
+  summarize: () => void;
+  /** Returns false when the spoken name isn't a mode. */
+  navigate: (modeName: string) => boolean;
+  stop: () => void;
+  readSources: () => void;
+  /** Returns false when the spoken name isn't a persona. */
+  switchPersona: (personaName: string) => boolean;
+}
+
+export const createDefaultVoiceCommands = (getActions: () => VoiceCommandActions): VoiceCommand[] => [
+  {
+    id: 'repeat',
+    label: 'Repeat',
+    description: 'Says the last answer again.',
+    phrases: ['repeat that', 'say that again', 'repeat', 'come again', 'what did you say', 'one more time'],
+    run: () => getActions().repeat(),
+  },
+  {
+    id: 'slower',
+    label: 'Slower',
+    description: 'Speaks more slowly.',
+    phrases: ['slower', 'slow down', 'speak slower', 'talk slower', 'speak more slowly', 'not so fast'],
+    run: () => getActions().changeRate('slower'),
+  },
+  {
+    id: 'faster',
+    label: 'Faster',
+    description: 'Speaks more quickly.',
+    phrases: ['faster', 'speed up', 'speak faster', 'talk faster', 'speak more quickly', 'hurry up'],
+    run: () => getActions().changeRate('faster'),
+  },
+  {
+    id: 'quiz',
+    label: 'Quiz me',
+    description: 'Asks you questions on a topic, one at a time.',
+    phrases: [`quiz me on ${ARGUMENT}`, `test me on ${ARGUMENT}`, `quiz me about ${ARGUMENT}`, `ask me questions about ${ARGUMENT}`, `give me a quiz on ${ARGUMENT}`],
+    run: topic => getActions().quiz(topic),
+  },
+  {
+    id: 'summarize',
+    label: 'Summarize the document',
+    description: 'Reads out a summary of the loaded document.',
+    phrases: ['summarize the document', 'summarise the document', 'give me a summary', 'sum up the document', 'what is the document about', 'summarize'],
+    run: () => getActions().summarize(),
+  },
+  {
+    id: 'navigate',
+    label: 'Go to a mode',
+    description: 'Opens a learning mode, e.g. "go to knowledge base".',
+    phrases: [`go to ${ARGUMENT}`, `open ${ARGUMENT}`, `take me to ${ARGUMENT}`, `switch to ${ARGUMENT}`],
+    run: modeName => getActions().navigate(modeName),
+  },
+  {
+    id: 'stop',
+    label: 'Stop',
+    description: 'Stops talking and listening.',
+    phrases: ['stop', 'stop talking', 'be quiet', 'cancel', 'never mind', 'thats enough'],
+    run: () => getActions().stop(),
+  },
+  {
+    id: 'sources',
+    label: 'Read the sources',
+    description: 'Reads out where the last answer came from.',
+    phrases: ['read the sources', 'read sources', 'what are the sources', 'where is that from', 'cite your sources', 'list the sources'],
+    run: () => getActions().readSources(),
+  },
+  {
+    id: 'persona',
+    label: 'Switch persona',
+    description: 'Changes the tutor, e.g. "switch to Beginner" or "use the Socratic persona".',
+    phrases: [`switch to ${ARGUMENT}`, `change to ${ARGUMENT}`, `use ${ARGUMENT}`, `talk to ${ARGUMENT}`],
+    run: personaName => getActions().switchPersona(personaName),
+  },
+];
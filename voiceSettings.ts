@@ -0,0 +1,91 @@
+import { loadPreference, savePreference } from './preferences';
+import { SpeechVoice } from './speechEngines';
+
+const VOICE_SETTINGS_PREFERENCE = 'voice-settings';
+
+export type VoiceLanguageCode = 'en-ZA' | 'af-ZA' | 'zu-ZA';
+
+export interface VoiceLanguage {
+  code: VoiceLanguageCode;
+  name: string;
+  /** Added to the tutor's instructions so it answers in the language the student speaks. */
+  replyInstruction: string;
+}
+
+export const VOICE_LANGUAGES: VoiceLanguage[] = [
+  { code: 'en-ZA', name: 'English (South Africa)', replyInstruction: 'Always reply in English, using South African spelling.' },
+  { code: 'af-ZA', name: 'Afrikaans', replyInstruction: 'Always reply in Afrikaans, even when the question or the documents are in another language.' },
+  { code: 'zu-ZA', name: 'isiZulu', replyInstruction: 'Always reply in isiZulu, even when the question or the documents are in another language.' },
+];
+
+export interface VoiceSettings {
+  /** Used for speech recognition and to choose a voice. */
+  language: VoiceLanguageCode;
+  /** The chosen speech synthesis voice, or null to pick one for the language automatically. */
+  voiceURI: string | null;
+  rate: number;
+  pitch: number;
+  /** Varies pitch and rate slightly from sentence to sentence so long answers sound less monotonous. */
+  modulation: boolean;
+}
+
+export const MIN_SPEECH_RATE = 0.5;
+export const MAX_SPEECH_RATE = 2;
+export const MIN_SPEECH_PITCH = 0.5;
+export const MAX_SPEECH_PITCH = 1.5;
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  language: 'en-ZA',
+  voiceURI: null,
+  rate: 1.05,
+  pitch: 1,
+  modulation: true,
+};
+
+const clamp = (value: number, min: number, max: number, fallback: number) =>
+  Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/** Keeps settings within range, e.g. after reading ones saved by an older version. */
+export const normalizeVoiceSettings = (settings: Partial<VoiceSettings>): VoiceSettings => ({
+  language: VOICE_LANGUAGES.some(l => l.code === settings.language) ? settings.language! : DEFAULT_VOICE_SETTINGS.language,
+  voiceURI: typeof settings.voiceURI === 'string' ? settings.voiceURI : null,
+  rate: clamp(Number(settings.rate), MIN_SPEECH_RATE, MAX_SPEECH_RATE, DEFAULT_VOICE_SETTINGS.rate),
+  pitch: clamp(Number(settings.pitch), MIN_SPEECH_PITCH, MAX_SPEECH_PITCH, DEFAULT_VOICE_SETTINGS.pitch),
+  modulation: typeof settings.modulation === 'boolean' ? settings.modulation : DEFAULT_VOICE_SETTINGS.modulation,
+});
+
+export const loadVoiceSettings = (): VoiceSettings =>
+  normalizeVoiceSettings(loadPreference<Partial<VoiceSettings>>(VOICE_SETTINGS_PREFERENCE, {}));
+
+export const saveVoiceSettings = (settings: VoiceSettings) => savePreference(VOICE_SETTINGS_PREFERENCE, settings);
+
+export const getVoiceLanguage = (code: VoiceLanguageCode) => VOICE_LANGUAGES.find(l => l.code === code) ?? VOICE_LANGUAGES[0];
+
+// Some platforms report voice languages as "en_ZA" rather than "en-ZA".
+const normalizeTag = (tag: string) => tag.replace('_', '-').toLowerCase();
+const languageOf = (tag: string) => normalizeTag(tag).split('-')[0];
+const isExactMatch = (voice: SpeechVoice, language: VoiceLanguageCode) => normalizeTag(voice.lang) === normalizeTag(language);
+
+/** The voices that can speak the language, those for the exact region first. */
+export const voicesForLanguage = (voices: SpeechVoice[], language: VoiceLanguageCode) => {
+  const exact = voices.filter(v => isExactMatch(v, language));
+  const related = voices.filter(v => !exact.includes(v) && languageOf(v.lang) === languageOf(language));
+  return [...exact, ...related];
+};
+
+/**
+ * The voice to speak with: the chosen one if the browser still has it, otherwise the best-sounding voice for the
+ * language. Browsers rarely ship Afrikaans or isiZulu voices, so this can be null and the browser default is used.
+ */
+export const pickVoice = (voices: SpeechVoice[], settings: VoiceSettings): SpeechVoice | null => {
+  const chosen = settings.voiceURI ? voices.find(v => v.voiceURI === settings.voiceURI) : undefined;
+  if (chosen) return chosen;
+
+  const bestOf = (candidates: SpeechVoice[]) =>
+    candidates.find(v => /neural|natural/i.test(v.name)) ||
+    candidates.find(v => /google/i.test(v.name)) ||
+    candidates.find(v => v.localService) ||
+    candidates[0];
+  const candidates = voicesForLanguage(voices, settings.language);
+  return bestOf(candidates.filter(v => isExactMatch(v, settings.language))) || bestOf(candidates) || null;
+};
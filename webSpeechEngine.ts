@@ -0,0 +1,80 @@
+import { RecognitionOptions, SpeakOptions, SpeechEngine, SpeechRecognizer, SpeechSynthesizer } from './speechEngines';
+
+const getSpeechRecognition = () => (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+export const isSpeechSynthesisSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+class WebSpeechRecognizer implements SpeechRecognizer {
+  onstart: SpeechRecognizer['onstart'] = null;
+  onresult: SpeechRecognizer['onresult'] = null;
+  onerror: SpeechRecognizer['onerror'] = null;
+  onend: SpeechRecognizer['onend'] = null;
+  private recognition: any;
+
+  constructor() {
+    const SpeechRecognition = getSpeechRecognition();
+    this.recognition = new SpeechRecognition();
+    this.recognition.onstart = () => this.onstart?.();
+    this.recognition.onresult = (event: any) => {
+      const results = Array.from(event.results as ArrayLike<any>).slice(event.resultIndex);
+      this.onresult?.(results.map(result => ({ transcript: result[0].transcript, isFinal: result.isFinal })));
+    };
+    this.recognition.onerror = (event: any) => this.onerror?.(event.error);
+    this.recognition.onend = () => this.onend?.();
+  }
+
+  start({ language, continuous, interimResults }: RecognitionOptions) {
+    this.recognition.lang = language;
+    this.recognition.continuous = continuous;
+    this.recognition.interimResults = interimResults;
+    this.recognition.start();
+  }
+
+  stop() {
+    this.recognition.stop();
+  }
+
+  abort() {
+    this.recognition.abort();
+  }
+}
+
+/** Speaks with the browser's built-in voices, which most browsers have even when they can't recognize speech. */
+export class WebSpeechSynthesizer implements SpeechSynthesizer {
+  speak(text: string, { language, voice, rate, pitch }: SpeakOptions) {
+    return new Promise<void>((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      // Without a voice for the language, the browser falls back to one that at least knows the language tag.
+      utterance.lang = language;
+      const browserVoice = voice && speechSynthesis.getVoices().find(v => v.voiceURI === voice.voiceURI);
+      if (browserVoice) utterance.voice = browserVoice;
+      utterance.rate = rate;
+      utterance.pitch = pitch;
+      utterance.onend = () => resolve();
+      utterance.onerror = (event) => reject(new Error(`Speech synthesis failed: ${event.error}`));
+      speechSynthesis.speak(utterance);
+    });
+  }
+
+  cancel() {
+    speechSynthesis.cancel();
+  }
+
+  getVoices() {
+    return speechSynthesis.getVoices();
+  }
+
+  onVoicesChanged(listener: () => void) {
+    speechSynthesis.addEventListener('voiceschanged', listener);
+    return () => speechSynthesis.removeEventListener('voiceschanged', listener);
+  }
+}
+
+export const webSpeechEngine: SpeechEngine = {
+  id: 'web-speech',
+  name: 'Browser speech',
+  description: "Uses the browser's own speech recognition and voices. Not available in Firefox.",
+  isSupported: () => typeof window !== 'undefined' && !!getSpeechRecognition() && isSpeechSynthesisSupported(),
+  createRecognizer: () => new WebSpeechRecognizer(),
+  createSynthesizer: () => new WebSpeechSynthesizer(),
+};
@@ -0,0 +1,84 @@
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * A minimal reader for ZIP containers such as .docx and .pptx files.
+ * Supports stored and deflated entries using the browser's native DecompressionStream.
+ */
+export class ZipArchive {
+  private entries = new Map<string, ZipEntry>();
+
+  private constructor(private view: DataView) {
+    this.readCentralDirectory();
+  }
+
+  static async fromBlob(blob: Blob): Promise<ZipArchive> {
+    return new ZipArchive(new DataView(await blob.arrayBuffer()));
+  }
+
+  get fileNames(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  async readText(name: string): Promise<string | null> {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+
+    const nameLength = this.view.getUint16(entry.localHeaderOffset + 26, true);
+    const extraLength = this.view.getUint16(entry.localHeaderOffset + 28, true);
+    if (this.view.getUint32(entry.localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt archive entry: ${name}`);
+    }
+    const dataStart = entry.localHeaderOffset + 30 + nameLength + extraLength;
+    const data = new Uint8Array(this.view.buffer, this.view.byteOffset + dataStart, entry.compressedSize).slice();
+
+    if (entry.method === 0) {
+      return new TextDecoder().decode(data);
+    }
+    if (entry.method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    }
+    throw new Error(`Unsupported compression method ${entry.method} for ${name}`);
+  }
+
+  private readCentralDirectory() {
+    let endOffset = -1;
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64KB.
+    for (let i = this.view.byteLength - 22; i >= Math.max(0, this.view.byteLength - 22 - 0xffff); i--) {
+      if (this.view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+        endOffset = i;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw new Error('The file is not a valid ZIP-based document.');
+    }
+
+    const entryCount = this.view.getUint16(endOffset + 10, true);
+    let offset = this.view.getUint32(endOffset + 16, true);
+    const decoder = new TextDecoder();
+
+    for (let i = 0; i < entryCount; i++) {
+      if (this.view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) break;
+      const method = this.view.getUint16(offset + 10, true);
+      const compressedSize = this.view.getUint32(offset + 20, true);
+      const nameLength = this.view.getUint16(offset + 28, true);
+      const extraLength = this.view.getUint16(offset + 30, true);
+      const commentLength = this.view.getUint16(offset + 32, true);
+      const localHeaderOffset = this.view.getUint32(offset + 42, true);
+      const name = decoder.decode(new Uint8Array(this.view.buffer, this.view.byteOffset + offset + 46, nameLength));
+
+      this.entries.set(name, { name, method, compressedSize, localHeaderOffset });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+}